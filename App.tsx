@@ -1,23 +1,49 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { format } from 'date-fns';
-import { Plus, LayoutGrid, Settings as SettingsIcon, Moon, Sun, Check, Trash2, Pencil, X } from 'lucide-react';
-
-import { useLocalStorage } from './hooks/useLocalStorage';
-import { AppData, Habit, HABIT_COLORS, ViewState, DailyLog, WeekStart } from './types';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { addDays, format } from 'date-fns';
+import { Plus, LayoutGrid, BarChart3, Settings as SettingsIcon, Moon, Sun, Check, Trash2, Pencil, X, Archive, CalendarDays, Star, BookOpen, KeyRound } from 'lucide-react';
+
+import { useAppStorage } from './hooks/useAppStorage';
+import { useReminders } from './hooks/useReminders';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { useHabitStore } from './hooks/useHabitStore';
+import { useToday } from './hooks/useToday';
+import { AppData, Habit, HABIT_COLORS, ViewState, DailyLog, WeekStart, HabitKind, HabitSchedule, HeatmapRange, Rating } from './types';
 import { HabitCard } from './components/HabitCard';
+import { Heatmap } from './components/Heatmap';
+import { HeatmapRangePicker } from './components/HeatmapRangePicker';
 import { Modal } from './components/Modal';
 import { SettingsView } from './components/SettingsView';
+import { AnalyticsView } from './components/AnalyticsView';
+import { JournalView } from './components/JournalView';
 import { StatsBanner } from './components/StatsBanner';
 import { CalendarPanel } from './components/CalendarPanel';
+import { ScheduleEditor } from './components/ScheduleEditor';
+import { ReminderEditor } from './components/ReminderEditor';
+import { ArchivedHabits } from './components/ArchivedHabits';
+import { PwaPrompts } from './components/PwaPrompts';
+import { UndoToast } from './components/UndoToast';
+import { DaySummary } from './components/DaySummary';
+import { BulkEditor, BulkSelection } from './components/BulkEditor';
+import { RatingPicker } from './components/RatingPicker';
+import { RatingTrend } from './components/RatingTrend';
+import { PassphrasePrompt } from './components/PassphrasePrompt';
 import { t } from './utils/i18n';
-import { playCheckSound } from './utils/sound';
-import { createWebDavClient, performBackup } from './utils/webdav';
-
-// Simple ID generator since we can't easily import uuid without package manager in this constraint
-const generateId = () => Math.random().toString(36).substr(2, 9);
+import { isMeasurable, generateId, getHabitStartDate } from './utils/habits';
+import { toDateKey } from './utils/date';
+import { BulkEdit } from './utils/habitReducer';
+import { DAILY_SCHEDULE, getDayStatus } from './utils/schedule';
+import { DEFAULT_HEATMAP_RANGE } from './utils/calendar';
+import { createWebDavClient, performSync } from './utils/webdav';
+import { trackChanges, mergeAppData, hasSameContent } from './utils/sync';
+import { getSessionPassphrase, setSessionPassphrase, PassphraseError } from './utils/crypto';
+import { CURRENT_SCHEMA_VERSION } from './utils/migrations';
+import { AppStorage } from './utils/storage';
+import { habitsToIcs, icsFileName } from './utils/ical';
+import { downloadFile } from './utils/download';
 
 const INITIAL_DATA: AppData = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   habits: [],
   settings: {
     theme: 'system',
@@ -97,9 +123,26 @@ export const LongPressButton: React.FC<LongPressButtonProps> = ({
 };
 
 
-function App() {
+interface AppProps {
+  storage: AppStorage;
+  storedData: AppData | null; // Loaded before the first render, null on a fresh install
+}
+
+function App({ storage, storedData }: AppProps) {
   // --- State ---
-  const [data, setData] = useLocalStorage<AppData>('habitpulse_data', INITIAL_DATA);
+  const [data, setStoredData] = useAppStorage(storage, storedData, INITIAL_DATA);
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  // All edits go through here so changed habits/logs get timestamps and deletions leave tombstones for sync.
+  // Sync results are written with setStoredData directly, they already carry the stamps they were merged by.
+  const setTrackedData = useCallback((value: AppData | ((prev: AppData) => AppData)) => {
+    setStoredData(prev => trackChanges(prev, value instanceof Function ? value(prev) : value));
+  }, [setStoredData]);
+  // ...and through the undo history, which also undoes and redoes through the tracked setter
+  const { setData, undo, toast: undoToast, dismissToast: dismissUndoToast } = useUndoHistory(data, setTrackedData);
+  // Habit and log edits are actions of the habit reducer (utils/habitReducer.ts)
+  const dispatch = useHabitStore(data, setData);
   const [view, setView] = useState<ViewState>('dashboard');
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [isNavVisible, setIsNavVisible] = useState(true);
@@ -113,11 +156,27 @@ function App() {
   const [selectedDayHabitId, setSelectedDayHabitId] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [calendarSelectedDate, setCalendarSelectedDate] = useState<Date>(new Date());
+  const [detailHeatmapRange, setDetailHeatmapRange] = useState<HeatmapRange>(DEFAULT_HEATMAP_RANGE);
+  const [detailColorByRating, setDetailColorByRating] = useState(false);
+  const [isDaySummaryOpen, setIsDaySummaryOpen] = useState(false);
+  const [daySummaryDate, setDaySummaryDate] = useState<Date | null>(null);
+  const [bulkSelection, setBulkSelection] = useState<BulkSelection | null>(null);
+  // Auto-sync stops when encrypted backups need a passphrase this session doesn't have yet
+  const [isSyncPaused, setIsSyncPaused] = useState(false);
+  const [syncPassphrasePrompt, setSyncPassphrasePrompt] = useState<{ error?: string; isBusy?: boolean } | null>(null);
+  // Moves on at midnight, so today's check-ins are read from the right day while the app stays open
+  const today = useToday();
 
   // Form States
   const [habitFormTitle, setHabitFormTitle] = useState('');
   const [habitFormColor, setHabitFormColor] = useState(HABIT_COLORS[0].value);
+  const [habitFormKind, setHabitFormKind] = useState<HabitKind>('check');
+  const [habitFormTarget, setHabitFormTarget] = useState('');
+  const [habitFormUnit, setHabitFormUnit] = useState('');
+  const [habitFormSchedule, setHabitFormSchedule] = useState<HabitSchedule>(DAILY_SCHEDULE);
+  const [habitFormReminders, setHabitFormReminders] = useState<string[]>([]);
   const [logFormNote, setLogFormNote] = useState('');
+  const [logFormValue, setLogFormValue] = useState('');
 
   // FAB Drag State
   const [fabPos, setFabPos] = useState<{x: number, y: number} | null>(null);
@@ -125,25 +184,84 @@ function App() {
   const isDragging = useRef(false);
 
   const lang = data.settings.language || 'zh';
+  const activeHabits = data.habits.filter(h => !h.archived);
+  // The habit open in the detail modal, kept up to date with check-ins made from its heatmap
+  const detailHabit = editingHabit ? data.habits.find(h => h.id === editingHabit.id) ?? null : null;
+  const detailHabitStart = detailHabit ? getHabitStartDate(detailHabit) : undefined;
+  const archivedHabits = data.habits.filter(h => h.archived);
 
   // --- Effects ---
 
+  // Pull, merge and push through WebDAV. Local edits made while the request was in flight are kept
+  // by merging the result into the latest state instead of overwriting it.
+  const runSync = useCallback(async () => {
+    const webDavSettings = dataRef.current.settings.webDav;
+    if (!webDavSettings?.url || !webDavSettings.username) return;
+
+    const client = createWebDavClient(webDavSettings.url, webDavSettings.username, webDavSettings.password, webDavSettings.proxyUrl);
+    const merged = await performSync(client, dataRef.current, webDavSettings.backupCount || 5, getSessionPassphrase());
+    const syncedAt = new Date().toISOString();
+    setIsSyncPaused(false);
+
+    setStoredData(prev => {
+      const next = hasSameContent(prev, merged) ? prev : mergeAppData(prev, merged);
+      const webDav = next.settings.webDav ? { ...next.settings.webDav, lastSyncAt: syncedAt } : undefined;
+      return { ...next, settings: { ...next.settings, webDav } };
+    });
+  }, [setStoredData]);
+
   // Auto-sync WebDAV
+  const webDavSettings = data.settings.webDav;
+  const isAutoSyncOn = !!(webDavSettings?.enabled && webDavSettings.autoSync && webDavSettings.url && webDavSettings.username);
+
+  // A missing or wrong passphrase pauses auto-sync until it is entered, other failures are retried next time
+  const autoSync = useCallback(() => {
+    runSync().catch(e => {
+      if (e instanceof PassphraseError) {
+        if (e.reason === 'incorrect') setSessionPassphrase(undefined);
+        setIsSyncPaused(true);
+      } else {
+        console.error('Auto-sync failed', e);
+      }
+    });
+  }, [runSync]);
+
   useEffect(() => {
-    const webDavSettings = data.settings.webDav;
-    if (webDavSettings?.enabled && webDavSettings.autoSync && webDavSettings.url && webDavSettings.username) {
-      const timer = setTimeout(async () => {
-        try {
-          const client = createWebDavClient(webDavSettings.url, webDavSettings.username, webDavSettings.password, webDavSettings.proxyUrl);
-          await performBackup(client, data, webDavSettings.backupCount || 5);
-        } catch (e) {
-          console.error('Auto-sync failed', e);
-        }
-      }, 5000); // 5 second debounce
+    if (!isAutoSyncOn || isSyncPaused) return;
+    const timer = setTimeout(autoSync, 5000); // 5 second debounce
 
-      return () => clearTimeout(timer);
+    return () => clearTimeout(timer);
+    // Settings changes (including lastSyncAt) don't need a sync, only habit data does
+  }, [data.habits, data.deleted, isAutoSyncOn, isSyncPaused, autoSync]);
+
+  // Pick up changes made on other devices when coming back to the app
+  useEffect(() => {
+    if (!isAutoSyncOn || isSyncPaused) return;
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') autoSync();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [isAutoSyncOn, isSyncPaused, autoSync]);
+
+  const resumeSync = async (passphrase: string) => {
+    setSessionPassphrase(passphrase);
+    setSyncPassphrasePrompt({ isBusy: true });
+    try {
+      await runSync();
+      setSyncPassphrasePrompt(null);
+    } catch (e) {
+      if (e instanceof PassphraseError) {
+        setSessionPassphrase(undefined);
+        setSyncPassphrasePrompt({ error: t(lang, 'incorrectPassphrase') });
+        return;
+      }
+      // The passphrase is kept, so auto-sync retries on its own
+      console.error('Sync failed', e);
+      setSyncPassphrasePrompt(null);
+      setIsSyncPaused(false);
     }
-  }, [data]);
+  };
 
   // Scroll handler for auto-hiding nav
   useEffect(() => {
@@ -215,6 +333,7 @@ function App() {
         const dateKey = format(calendarSelectedDate, 'yyyy-MM-dd');
         const log = habit.logs[dateKey];
         setLogFormNote(log?.note || '');
+        setLogFormValue(log?.value !== undefined ? String(log.value) : '');
       }
     }
   }, [isCalendarModalOpen, selectedDayHabitId, calendarSelectedDate, data.habits]);
@@ -223,49 +342,34 @@ function App() {
 
   const toggleTheme = () => {
     // Toggling manually switches out of system mode
-    const newTheme = isDarkMode ? 'light' : 'dark';
-    setData(prev => ({
-      ...prev,
-      settings: { ...prev.settings, theme: newTheme }
-    }));
+    dispatch({ type: 'updateSettings', changes: { theme: isDarkMode ? 'light' : 'dark' } });
   };
 
   const updateSetting = (key: keyof AppData['settings'], value: any) => {
-    setData(prev => ({
-        ...prev,
-        settings: { ...prev.settings, [key]: value }
-    }));
+    dispatch({ type: 'updateSettings', changes: { [key]: value } });
   };
 
+  const isHabitFormValid = !!habitFormTitle.trim() && (habitFormKind === 'check' || parseFloat(habitFormTarget) > 0);
+
   const saveHabit = (shouldClose: boolean = true) => {
-    if (!habitFormTitle.trim()) return;
+    if (!isHabitFormValid) return;
+
+    const reminders = habitFormReminders.length > 0 ? habitFormReminders : undefined;
+    const habitFields: Pick<Habit, 'kind' | 'target' | 'unit' | 'schedule' | 'reminders'> = habitFormKind === 'measurable'
+        ? { kind: 'measurable', target: parseFloat(habitFormTarget), unit: habitFormUnit.trim() || undefined, schedule: habitFormSchedule, reminders }
+        : { kind: 'check', target: undefined, unit: undefined, schedule: habitFormSchedule, reminders };
     
-    setData(prev => {
-        let newHabits = [...prev.habits];
-        
-        if (editingHabit) {
-            // Update existing
-            newHabits = newHabits.map(h => 
-                h.id === editingHabit.id 
-                ? { ...h, title: habitFormTitle, color: habitFormColor }
-                : h
-            );
-            // Also update the editingHabit state so the modal reflects changes immediately if not closed
-            setEditingHabit(prevEdit => prevEdit ? { ...prevEdit, title: habitFormTitle, color: habitFormColor } : null);
-        } else {
-            // Create new
-            const newHabit: Habit = {
-                id: generateId(),
-                title: habitFormTitle,
-                color: habitFormColor,
-                createdAt: new Date().toISOString(),
-                logs: {},
-                archived: false
-            };
-            newHabits.push(newHabit);
-        }
-        return { ...prev, habits: newHabits };
-    });
+    const changes = { title: habitFormTitle, color: habitFormColor, ...habitFields };
+    if (editingHabit) {
+        dispatch({ type: 'updateHabit', habitId: editingHabit.id, changes });
+        // Also update the editingHabit state so the modal reflects changes immediately if not closed
+        setEditingHabit(prevEdit => prevEdit ? { ...prevEdit, ...changes } : null);
+    } else {
+        dispatch({
+            type: 'addHabit',
+            habit: { id: generateId(), createdAt: new Date().toISOString(), logs: {}, archived: false, ...changes },
+        });
+    }
     
     if (shouldClose) {
         closeHabitModal();
@@ -273,91 +377,64 @@ function App() {
   };
 
   const deleteHabit = (id: string) => {
-    setData(prev => ({
-        ...prev,
-        habits: prev.habits.filter(h => h.id !== id)
-    }));
+    dispatch({ type: 'deleteHabit', habitId: id }, 'habitDeleted');
     closeHabitModal();
   }
 
+  // Archived habits leave the dashboard but keep their full history
+  const setHabitArchived = (id: string, archived: boolean) => {
+    dispatch({ type: 'setArchived', habitId: id, archived }, archived ? 'habitArchived' : undefined);
+    if (archived) closeHabitModal();
+  };
+
+  // Check-ins ticked off in the day summary of the overview heatmap, as one undoable step
+  const saveDaySummary = (completed: Record<string, boolean>) => {
+    if (!daySummaryDate) return;
+    dispatch({ type: 'setDayCompletions', date: toDateKey(daySummaryDate), completed, now: new Date().toISOString() }, 'checkInsUpdated');
+    setIsDaySummaryOpen(false);
+  };
+
+  const openDaySummary = (date: Date) => {
+    setDaySummaryDate(date);
+    setIsDaySummaryOpen(true);
+  };
+
+  // Bulk editor, opened by dragging across heatmap or calendar days (or from the calendar's button)
+  const openBulkEditor = (habitIds: string[], start: Date, end: Date) => {
+    setBulkSelection({ habitIds, start: toDateKey(start), end: toDateKey(end) });
+  };
+
+  const applyBulkEdit = (habitIds: string[], dates: string[], edit: BulkEdit) => {
+    dispatch({ type: 'bulkEdit', habitIds, dates, edit, now: new Date().toISOString() }, 'logsUpdated');
+    setBulkSelection(null);
+  };
+
   const toggleToday = (habitId: string) => {
-    const todayKey = format(new Date(), 'yyyy-MM-dd');
-    const nowIso = new Date().toISOString();
-    
-    setData(prev => {
-      const habits = prev.habits.map(h => {
-        if (h.id !== habitId) return h;
-        
-        const isCompleted = !!h.logs[todayKey]?.completed;
-        const newLogs = { ...h.logs };
-        
-        if (isCompleted) {
-          // Toggle off: keep data but mark uncompleted
-          if (newLogs[todayKey].note) {
-              newLogs[todayKey].completed = false;
-          } else {
-              delete newLogs[todayKey];
-          }
-        } else {
-          // Toggle On
-          newLogs[todayKey] = {
-            ...newLogs[todayKey],
-            date: todayKey,
-            completed: true,
-            timestamp: nowIso
-          };
-          // Play sound
-          playCheckSound();
-        }
-        
-        return { ...h, logs: newLogs };
-      });
-      return { ...prev, habits };
-    });
+    dispatch({ type: 'toggleLog', habitId, date: toDateKey(new Date()), now: new Date().toISOString() });
+  };
+
+  // A notification's "Mark done" does what tapping the card does (only called while not yet done)
+  useReminders(data.habits, data.settings.weekStart || 'sunday', lang, toggleToday);
+
+  // 数值型习惯：增减今天的数量，达到目标即视为完成
+  const adjustToday = (habitId: string, delta: number) => {
+    dispatch({ type: 'adjustValue', habitId, date: toDateKey(new Date()), delta, now: new Date().toISOString() });
   };
 
   const saveLogDetails = () => {
     if (!selectedDayHabitId || !selectedDate) return;
-    const dateKey = format(selectedDate, 'yyyy-MM-dd');
-
-    setData(prev => {
-        const habits = prev.habits.map(h => {
-            if (h.id !== selectedDayHabitId) return h;
-            
-            const existingLog: DailyLog = h.logs[dateKey] || { date: dateKey, completed: false };
-            
-            // If adding a note, we assume it implies completion or tracking
-            const newLog: DailyLog = {
-                ...existingLog,
-                note: logFormNote,
-                completed: existingLog.completed || true,
-                timestamp: existingLog.timestamp || new Date().toISOString()
-            };
-
-            return {
-                ...h,
-                logs: { ...h.logs, [dateKey]: newLog }
-            };
-        });
-        return { ...prev, habits };
-    });
+    dispatch({ type: 'saveNote', habitId: selectedDayHabitId, date: toDateKey(selectedDate), note: logFormNote, now: new Date().toISOString() });
     closeLogModal();
   };
 
+  // A rating is saved as soon as it is picked, apart from the note's Save
+  const saveRating = (habitId: string, date: Date, rating?: Rating) => {
+    dispatch({ type: 'setRating', habitId, date: toDateKey(date), rating });
+  };
+
   const deleteLog = () => {
     if (!selectedDayHabitId || !selectedDate) return;
-    const dateKey = format(selectedDate, 'yyyy-MM-dd');
-
-    setData(prev => {
-        const habits = prev.habits.map(h => {
-            if (h.id !== selectedDayHabitId) return h;
-            const newLogs = { ...h.logs };
-            // Using delete operator on the object key to remove it completely
-            delete newLogs[dateKey]; 
-            return { ...h, logs: newLogs };
-        });
-        return { ...prev, habits };
-    });
+    dispatch({ type: 'deleteLog', habitId: selectedDayHabitId, date: toDateKey(selectedDate) }, 'logDeleted');
     closeLogModal();
   };
 
@@ -368,10 +445,22 @@ function App() {
       setEditingHabit(habit);
       setHabitFormTitle(habit.title);
       setHabitFormColor(habit.color);
+      setHabitFormKind(habit.kind || 'check');
+      setHabitFormTarget(habit.target ? String(habit.target) : '');
+      setHabitFormUnit(habit.unit || '');
+      setHabitFormSchedule(habit.schedule || DAILY_SCHEDULE);
+      setHabitFormReminders(habit.reminders || []);
+      setDetailHeatmapRange(DEFAULT_HEATMAP_RANGE);
+      setDetailColorByRating(false);
     } else {
       setEditingHabit(null);
       setHabitFormTitle('');
       setHabitFormColor(HABIT_COLORS[0].value);
+      setHabitFormKind('check');
+      setHabitFormTarget('');
+      setHabitFormUnit('');
+      setHabitFormSchedule(DAILY_SCHEDULE);
+      setHabitFormReminders([]);
     }
     setIsHabitModalOpen(true);
   };
@@ -403,13 +492,15 @@ function App() {
     const dateKey = format(date, 'yyyy-MM-dd');
     const log = habit.logs[dateKey];
     setLogFormNote(log?.note || '');
+    setLogFormValue(log?.value !== undefined ? String(log.value) : '');
     setIsCalendarModalOpen(true);
   };
 
   const closeCalendarModal = () => {
     setIsCalendarModalOpen(false);
-    // 保存当前选中日期的备注和评分
+    // 保存当前选中日期的数量、备注和评分
     if (selectedDayHabitId && calendarSelectedDate) {
+      saveCalendarLogValue(logFormValue);
       saveCalendarLogDetails();
     }
   };
@@ -435,75 +526,32 @@ function App() {
     dateToCheck.setHours(0, 0, 0, 0);
     if (dateToCheck > today) return;
     
-    const dateKey = format(date, 'yyyy-MM-dd');
-    const nowIso = new Date().toISOString();
+    const dateKey = toDateKey(date);
     
     // 先更新选中日期（这会触发月份自动切换）
     setCalendarSelectedDate(date);
-    
-    setData(prev => {
-      const habits = prev.habits.map(h => {
-        if (h.id !== selectedDayHabitId) return h;
-        
-        const isCompleted = !!h.logs[dateKey]?.completed;
-        const newLogs = { ...h.logs };
-        
-        if (isCompleted) {
-          // 取消打卡：如果有备注，保留但标记为未完成；否则删除
-          if (newLogs[dateKey].note) {
-            newLogs[dateKey].completed = false;
-          } else {
-            delete newLogs[dateKey];
-          }
-        } else {
-          // 打卡：保留现有的备注
-          newLogs[dateKey] = {
-            ...newLogs[dateKey],
-            date: dateKey,
-            completed: true,
-            timestamp: nowIso,
-            note: newLogs[dateKey]?.note || logFormNote || undefined,
-          };
-          playCheckSound();
-        }
-        
-        return { ...h, logs: newLogs };
-      });
-      return { ...prev, habits };
-    });
+    // 长按容易误触，两个方向都提示可撤销
+    const wasCompleted = !!data.habits.find(h => h.id === selectedDayHabitId)?.logs[dateKey]?.completed;
+    // 打卡时保留现有的备注，或带上正在编辑的备注
+    dispatch(
+      { type: 'toggleLog', habitId: selectedDayHabitId, date: dateKey, now: new Date().toISOString(), note: logFormNote },
+      wasCompleted ? 'checkInRemoved' : 'checkInAdded'
+    );
   };
 
   // 保存月历面板中的备注
   const saveCalendarLogDetails = (note?: string) => {
     if (!selectedDayHabitId || !calendarSelectedDate) return;
-    const dateKey = format(calendarSelectedDate, 'yyyy-MM-dd');
     const noteToSave = note !== undefined ? note : logFormNote;
+    dispatch({ type: 'saveNote', habitId: selectedDayHabitId, date: toDateKey(calendarSelectedDate), note: noteToSave, now: new Date().toISOString() });
+  };
 
-    setData(prev => {
-        const habits = prev.habits.map(h => {
-            if (h.id !== selectedDayHabitId) return h;
-            
-            const existingLog: DailyLog = h.logs[dateKey] || { date: dateKey, completed: false };
-            
-            // 如果备注为空，且未完成，则不创建记录
-            if (!noteToSave.trim() && !existingLog.completed) {
-                return h;
-            }
-            
-            const newLog: DailyLog = {
-                ...existingLog,
-                note: noteToSave.trim() || undefined,
-                completed: existingLog.completed || noteToSave.trim().length > 0,
-                timestamp: existingLog.timestamp || new Date().toISOString()
-            };
-
-            return {
-                ...h,
-                logs: { ...h.logs, [dateKey]: newLog }
-            };
-        });
-        return { ...prev, habits };
-    });
+  // 保存月历面板中数值型习惯的数量
+  const saveCalendarLogValue = (rawValue: string) => {
+    if (!selectedDayHabitId || !calendarSelectedDate) return;
+    const parsed = parseFloat(rawValue);
+    const value = isNaN(parsed) ? 0 : parsed;
+    dispatch({ type: 'setValue', habitId: selectedDayHabitId, date: toDateKey(calendarSelectedDate), value, now: new Date().toISOString() });
   };
 
   const closeLogModal = () => {
@@ -628,6 +676,18 @@ function App() {
           >
             <LayoutGrid size={24} />
           </button>
+          <button 
+            onClick={() => setView('analytics')}
+            className={`p-3 rounded-xl transition-all ${view === 'analytics' ? 'bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100' : 'text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300'}`}
+          >
+            <BarChart3 size={24} />
+          </button>
+          <button 
+            onClick={() => setView('journal')}
+            className={`p-3 rounded-xl transition-all ${view === 'journal' ? 'bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100' : 'text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300'}`}
+          >
+            <BookOpen size={24} />
+          </button>
           <button 
             onClick={() => setView('settings')}
             className={`p-3 rounded-xl transition-all ${view === 'settings' ? 'bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100' : 'text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300'}`}
@@ -655,31 +715,45 @@ function App() {
         
         {/* Header Removed as requested */}
 
-        {view === 'dashboard' && <StatsBanner data={data} lang={lang} />}
+        {isAutoSyncOn && isSyncPaused && (
+          <div className="mb-4 flex items-center justify-between gap-3 rounded-xl border border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-900/20 px-4 py-3 text-sm text-amber-700 dark:text-amber-400">
+            <span className="flex items-center gap-2">
+              <KeyRound size={16} />
+              {t(lang, 'syncPaused')}
+            </span>
+            <button
+              onClick={() => setSyncPassphrasePrompt({})}
+              className="shrink-0 font-medium hover:underline"
+            >
+              {t(lang, 'unlock')}
+            </button>
+          </div>
+        )}
+
+        {view === 'dashboard' && <StatsBanner
+            data={data}
+            lang={lang}
+            onOverviewDayClick={openDaySummary}
+            onOverviewSelectDays={(start, end) => openBulkEditor(activeHabits.map(h => h.id), start, end)}
+          />}
 
         {/* View Content */}
         {view === 'settings' ? (
           <SettingsView 
             data={data} 
-            onImport={(newData) => {
-                // Merge imported data with initial settings to ensure all fields exist
-                const mergedData: AppData = {
-                    ...newData,
-                    settings: {
-                        ...INITIAL_DATA.settings, // Defaults
-                        ...newData.settings,      // Imported overrides defaults
-                        // Explicitly ensure splitMonths is present if missing in imported data
-                        splitMonths: newData.settings?.splitMonths ?? INITIAL_DATA.settings.splitMonths
-                    }
-                };
-                setData(mergedData);
-            }}
-            onReset={() => setData(INITIAL_DATA)}
+            onImport={setData}
+            onReset={() => dispatch({ type: 'replaceData', data: INITIAL_DATA }, 'dataReset')}
             onUpdateSetting={updateSetting}
+            onSyncNow={runSync}
+            onRestoreBackup={setData}
           />
+        ) : view === 'analytics' ? (
+          <AnalyticsView data={data} lang={lang} />
+        ) : view === 'journal' ? (
+          <JournalView data={data} lang={lang} onOpenEntry={openCalendarModal} />
         ) : (
             <div className="grid grid-cols-1 xl:grid-cols-2 gap-2 pb-20 relative">
-            {data.habits.length === 0 ? (
+            {activeHabits.length === 0 ? (
                 <div className="col-span-full flex flex-col items-center justify-center relative mt-2">
                     {/* Placeholder Card - Matching HabitCard dimensions more closely */}
                     <div className="w-full h-40 border-2 border-dashed border-zinc-300 dark:border-zinc-700 rounded-2xl flex flex-col items-center justify-center text-zinc-400 bg-zinc-50/50 dark:bg-zinc-900/50">
@@ -688,20 +762,31 @@ function App() {
                     </div>
                 </div>
             ) : (
-                data.habits.map(habit => (
+                activeHabits.map(habit => (
                     <HabitCard 
                         key={habit.id}
                         habit={habit}
-                        todayLog={habit.logs[format(new Date(), 'yyyy-MM-dd')]}
+                        todayLog={habit.logs[toDateKey(today)]}
                         onToggleToday={toggleToday}
+                        onAdjustToday={adjustToday}
                         onOpenDetail={openHabitModal}
                         onDayClick={(habitId, date) => openCalendarModal(habitId, date)}
+                        onSelectDays={(habitId, start, end) => openBulkEditor([habitId], start, end)}
                         lang={lang}
                         weekStart={data.settings.weekStart || 'sunday'}
                         splitMonths={data.settings.splitMonths ?? false}
+                        streakFreezesPerMonth={data.settings.streakFreezesPerMonth ?? 0}
                     />
                 ))
             )}
+            <ArchivedHabits
+                habits={archivedHabits}
+                onRestore={(id) => setHabitArchived(id, false)}
+                onDelete={deleteHabit}
+                lang={lang}
+                weekStart={data.settings.weekStart || 'sunday'}
+                splitMonths={data.settings.splitMonths ?? false}
+            />
             </div>
         )}
       </main>
@@ -802,6 +887,48 @@ function App() {
                                 {Object.values(editingHabit.logs).filter((l: DailyLog) => l.completed).length} <span className="text-base font-normal text-zinc-500">{t(lang, 'totalCompletions')}</span>
                             </div>
                     </div>
+                    {detailHabit && (
+                      <div className="mt-4 space-y-2">
+                        <Heatmap
+                          logs={detailHabit.logs}
+                          color={detailHabit.color}
+                          onClickDay={(date) => openCalendarModal(detailHabit.id, date)}
+                          onSelectRange={(start, end) => openBulkEditor([detailHabit.id], start, end)}
+                          weekStart={data.settings.weekStart || 'sunday'}
+                          splitMonths={data.settings.splitMonths ?? false}
+                          lang={lang}
+                          target={isMeasurable(detailHabit) ? detailHabit.target : undefined}
+                          unit={detailHabit.unit}
+                          isDayOff={detailHabit.schedule && detailHabit.schedule.type !== 'daily'
+                            ? (date) => getDayStatus(detailHabit, date, data.settings.weekStart || 'sunday') === 'off'
+                            : undefined}
+                          range={detailHeatmapRange}
+                          habitStart={detailHabitStart}
+                          colorByRating={detailColorByRating}
+                        />
+                        <div className="flex items-start justify-between gap-2">
+                          <button
+                            onClick={() => setDetailColorByRating(!detailColorByRating)}
+                            aria-pressed={detailColorByRating}
+                            className={`flex items-center gap-1 px-1.5 py-1 rounded-md text-[10px] font-medium transition-colors ${detailColorByRating ? 'bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100' : 'text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100'}`}
+                          >
+                            <Star size={12} fill={detailColorByRating ? 'currentColor' : 'none'} />
+                            {t(lang, 'heatmapByRating')}
+                          </button>
+                          <HeatmapRangePicker
+                            value={detailHeatmapRange}
+                            onChange={setDetailHeatmapRange}
+                            lang={lang}
+                            firstYear={detailHabitStart!.getFullYear()}
+                            allowCustom
+                          />
+                        </div>
+                        <div className="pt-2">
+                          <h5 className="text-[10px] font-bold text-zinc-400 dark:text-zinc-500 uppercase tracking-wider mb-2">{t(lang, 'ratingTrend')}</h5>
+                          <RatingTrend habit={detailHabit} weekStart={data.settings.weekStart || 'sunday'} lang={lang} />
+                        </div>
+                      </div>
+                    )}
                 </div>
             )}
 
@@ -834,18 +961,92 @@ function App() {
                 </div>
             </div>
 
+            <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-3">{t(lang, 'habitType')}</label>
+                <div className="flex bg-zinc-200 dark:bg-zinc-800 rounded-lg p-1">
+                    {(['check', 'measurable'] as HabitKind[]).map(kind => (
+                        <button
+                            key={kind}
+                            onClick={() => setHabitFormKind(kind)}
+                            className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-md transition-all ${habitFormKind === kind ? 'bg-white dark:bg-zinc-600 shadow-sm text-zinc-900 dark:text-white' : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-300'}`}
+                        >
+                            {kind === 'check' ? t(lang, 'typeCheck') : t(lang, 'typeMeasurable')}
+                        </button>
+                    ))}
+                </div>
+                {habitFormKind === 'measurable' && (
+                    <div className="grid grid-cols-2 gap-3 mt-3">
+                        <div>
+                            <label className="block text-xs font-medium text-zinc-500 mb-1">{t(lang, 'dailyTarget')}</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="any"
+                                value={habitFormTarget}
+                                onChange={(e) => setHabitFormTarget(e.target.value)}
+                                placeholder="20"
+                                className="w-full px-4 py-2.5 rounded-lg bg-zinc-100 dark:bg-zinc-800 border-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100 outline-none transition-all dark:text-white"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-zinc-500 mb-1">{t(lang, 'unit')}</label>
+                            <input
+                                type="text"
+                                value={habitFormUnit}
+                                onChange={(e) => setHabitFormUnit(e.target.value)}
+                                placeholder={t(lang, 'unitPlaceholder')}
+                                className="w-full px-4 py-2.5 rounded-lg bg-zinc-100 dark:bg-zinc-800 border-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100 outline-none transition-all dark:text-white"
+                            />
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-3">{t(lang, 'frequency')}</label>
+                <ScheduleEditor
+                    value={habitFormSchedule}
+                    onChange={setHabitFormSchedule}
+                    lang={lang}
+                    weekStart={data.settings.weekStart || 'sunday'}
+                />
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-3">{t(lang, 'reminders')}</label>
+                <ReminderEditor value={habitFormReminders} onChange={setHabitFormReminders} lang={lang} />
+            </div>
+
             <div className="pt-4 flex gap-3">
                 <button 
                     onClick={() => saveHabit(true)}
-                    disabled={!habitFormTitle.trim()}
+                    disabled={!isHabitFormValid}
                     className={`flex-1 py-3 rounded-lg font-semibold transition-opacity ${
-                        !habitFormTitle.trim() 
+                        !isHabitFormValid 
                             ? 'bg-zinc-300 dark:bg-zinc-700 text-zinc-500 dark:text-zinc-500 cursor-not-allowed' 
                             : 'bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 hover:opacity-90'
                     }`}
                 >
                     {editingHabit ? t(lang, 'save') : t(lang, 'create')}
                 </button>
+                {editingHabit && (
+                    <button
+                        onClick={() => setHabitArchived(editingHabit.id, true)}
+                        title={t(lang, 'archive')}
+                        className="px-4 py-3 rounded-lg text-zinc-600 dark:text-zinc-300 border-2 border-zinc-300 dark:border-zinc-600 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors flex items-center justify-center"
+                    >
+                        <Archive size={20} />
+                    </button>
+                )}
+                {detailHabit && (
+                    <button
+                        onClick={() => downloadFile(habitsToIcs([detailHabit], detailHabit.title, { weekStart: data.settings.weekStart }), icsFileName(detailHabit.title), 'text/calendar;charset=utf-8')}
+                        title={t(lang, 'icsExportHabit')}
+                        className="px-4 py-3 rounded-lg text-zinc-600 dark:text-zinc-300 border-2 border-zinc-300 dark:border-zinc-600 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors flex items-center justify-center"
+                    >
+                        <CalendarDays size={20} />
+                    </button>
+                )}
                 {editingHabit && (
                      <LongPressButton
                         onComplete={() => deleteHabit(editingHabit.id)}
@@ -877,6 +1078,17 @@ function App() {
                 />
             </div>
 
+            {selectedDayHabitId && selectedDate && (
+                <div className="flex items-center justify-between gap-3">
+                    <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">{t(lang, 'rating')}</label>
+                    <RatingPicker
+                        value={data.habits.find(h => h.id === selectedDayHabitId)?.logs[toDateKey(selectedDate)]?.rating}
+                        onChange={(rating) => saveRating(selectedDayHabitId, selectedDate, rating)}
+                        lang={lang}
+                    />
+                </div>
+            )}
+
             <div className="pt-4 flex gap-3">
                 <button
                     onClick={saveLogDetails}
@@ -922,7 +1134,24 @@ function App() {
           return (
             <div className="space-y-4">
               {/* 备注编辑区域 */}
-              <div className="pb-1">
+              <div className="pb-1 space-y-3">
+                {isMeasurable(habit) && (
+                  <div>
+                    <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                      {t(lang, 'amount')} ({t(lang, 'dailyTarget')}: {habit.target}{habit.unit ? ` ${habit.unit}` : ''})
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={logFormValue}
+                      onChange={(e) => setLogFormValue(e.target.value)}
+                      onBlur={() => saveCalendarLogValue(logFormValue)}
+                      placeholder="0"
+                      className="w-full px-4 py-3 rounded-lg bg-zinc-100 dark:bg-zinc-800 border-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100 outline-none transition-all dark:text-white"
+                    />
+                  </div>
+                )}
                 <div>
                   <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
                     {t(lang, 'notes')} ({format(calendarSelectedDate, lang === 'zh' ? 'yyyy/MM/dd' : 'MMM d, yyyy')})
@@ -936,12 +1165,31 @@ function App() {
                     className="w-full px-4 py-3 rounded-lg bg-zinc-100 dark:bg-zinc-800 border-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100 outline-none transition-all dark:text-white resize-none"
                   />
                 </div>
+                <div className="flex items-center justify-between gap-3">
+                  <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">{t(lang, 'rating')}</label>
+                  <RatingPicker
+                    value={currentLog?.rating}
+                    onChange={(rating) => saveRating(habit.id, calendarSelectedDate, rating)}
+                    lang={lang}
+                  />
+                </div>
               </div>
 
               {/* 分割线与提示语 */}
               <div className="flex items-center gap-4">
                 <span className="text-xs text-zinc-400 flex-shrink-0">{t(lang, 'longPressToToggle')}</span>
                 <div className="h-[1px] flex-1 bg-zinc-200 dark:bg-zinc-800" />
+                {/* 批量编辑：默认为选中日期前的一周，触屏上无法拖选时使用 */}
+                <button
+                  onClick={() => {
+                    closeCalendarModal();
+                    openBulkEditor([habit.id], addDays(calendarSelectedDate, -6), calendarSelectedDate);
+                  }}
+                  title={t(lang, 'bulkEditDragHint')}
+                  className="text-xs font-medium text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors flex-shrink-0"
+                >
+                  {t(lang, 'bulkEdit')}
+                </button>
               </div>
 
               {/* 月历面板 */}
@@ -950,6 +1198,10 @@ function App() {
                 selectedDate={calendarSelectedDate}
                 onDateClick={selectDate}
                 onDateLongPress={toggleDateCompletion}
+                onSelectRange={(start, end) => {
+                  closeCalendarModal();
+                  openBulkEditor([habit.id], start, end);
+                }}
                 lang={lang}
                 weekStart={data.settings.weekStart || 'sunday'}
               />
@@ -957,6 +1209,54 @@ function App() {
           );
         })()}
       </Modal>
+
+      {/* Day Summary Modal: all habits of a day from the overview heatmap */}
+      <Modal
+        isOpen={isDaySummaryOpen}
+        onClose={() => setIsDaySummaryOpen(false)}
+        title={daySummaryDate ? format(daySummaryDate, lang === 'zh' ? 'yyyy/MM/dd' : 'MMM d, yyyy') : ''}
+      >
+        {daySummaryDate && (
+          <DaySummary
+            key={daySummaryDate.getTime()}
+            habits={data.habits}
+            date={daySummaryDate}
+            weekStart={data.settings.weekStart || 'sunday'}
+            lang={lang}
+            onSave={saveDaySummary}
+          />
+        )}
+      </Modal>
+
+      {/* Bulk Edit Modal: one change over a range of days for several habits */}
+      <Modal
+        isOpen={!!bulkSelection}
+        onClose={() => setBulkSelection(null)}
+        title={t(lang, 'bulkEdit')}
+      >
+        {bulkSelection && (
+          <BulkEditor
+            key={`${bulkSelection.habitIds.join(',')}:${bulkSelection.start}:${bulkSelection.end}`}
+            data={data}
+            initial={bulkSelection}
+            lang={lang}
+            onApply={applyBulkEdit}
+          />
+        )}
+      </Modal>
+
+      <PassphrasePrompt
+        isOpen={!!syncPassphrasePrompt}
+        lang={lang}
+        description={t(lang, 'syncPassphraseDesc')}
+        error={syncPassphrasePrompt?.error}
+        isBusy={syncPassphrasePrompt?.isBusy}
+        onSubmit={resumeSync}
+        onCancel={() => setSyncPassphrasePrompt(null)}
+      />
+
+      <UndoToast toast={undoToast} lang={lang} onUndo={undo} onDismiss={dismissUndoToast} />
+      <PwaPrompts lang={lang} />
     </div>
   );
 }
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, CalendarDays, Clock, Flame, Trophy } from 'lucide-react';
+import { AppData, Language } from '../types';
+import { t } from '../utils/i18n';
+import {
+  AnalyticsRange,
+  getRangeInterval,
+  getCompletionStats,
+  getWeekdayDistribution,
+  getHourHistogram,
+} from '../utils/analytics';
+import { getHabitStreaks } from '../utils/streaks';
+
+interface AnalyticsViewProps {
+  data: AppData;
+  lang: Language;
+}
+
+const RANGES: AnalyticsRange[] = ['week', 'month', 'quarter', 'year'];
+
+const RANGE_LABEL_KEYS = {
+  week: 'rangeWeek',
+  month: 'rangeMonth',
+  quarter: 'rangeQuarter',
+  year: 'rangeYear',
+} as const;
+
+// Simple vertical bar chart, bars scaled against the largest value
+const BarChart: React.FC<{ values: number[]; labels: string[]; color?: string }> = ({ values, labels, color }) => {
+  const max = Math.max(...values, 1);
+  return (
+    <div className="flex items-end gap-1 h-32">
+      {values.map((value, i) => (
+        <div key={i} className="flex-1 flex flex-col items-center gap-1 h-full min-w-0">
+          <div className="flex-1 w-full flex items-end">
+            <div
+              className={`w-full rounded-sm transition-all duration-500 ${color ? '' : 'bg-zinc-900 dark:bg-zinc-100'}`}
+              style={{
+                height: `${(value / max) * 100}%`,
+                minHeight: value > 0 ? 2 : 0,
+                backgroundColor: color,
+              }}
+              title={`${labels[i] || i}: ${value}`}
+            />
+          </div>
+          <span className="text-[9px] text-zinc-400 font-medium leading-none h-2.5 truncate">{labels[i]}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ data, lang }) => {
+  const [range, setRange] = useState<AnalyticsRange>('week');
+  const weekStart = data.settings.weekStart || 'sunday';
+  const freezesPerMonth = data.settings.streakFreezesPerMonth || 0;
+
+  const habits = useMemo(() => data.habits.filter(h => !h.archived), [data.habits]);
+  const interval = useMemo(() => getRangeInterval(range), [range]);
+
+  const habitStats = useMemo(() => {
+    return habits.map(habit => ({
+      habit,
+      completion: getCompletionStats(habit, interval, weekStart),
+      streaks: getHabitStreaks(habit, weekStart, { freezesPerMonth }),
+    }));
+  }, [habits, interval, weekStart, freezesPerMonth]);
+
+  // Reorder the Sunday-first distribution to follow the week start setting
+  const weekday = useMemo(() => {
+    const counts = getWeekdayDistribution(habits, interval);
+    const labels = lang === 'zh'
+      ? ['日', '一', '二', '三', '四', '五', '六']
+      : ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    const order = weekStart === 'monday' ? [1, 2, 3, 4, 5, 6, 0] : [0, 1, 2, 3, 4, 5, 6];
+    return {
+      values: order.map(i => counts[i]),
+      labels: order.map(i => labels[i]),
+    };
+  }, [habits, interval, lang, weekStart]);
+
+  const hours = useMemo(() => getHourHistogram(habits, interval), [habits, interval]);
+  const hasTimedLogs = hours.some(v => v > 0);
+  // Label every third hour to keep the axis readable on phones
+  const hourLabels = hours.map((_, h) => (h % 3 === 0 ? String(h) : ''));
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-4 pb-20 animate-in slide-in-from-bottom-4 duration-500">
+      <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-2xl p-6 sm:p-8">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold mb-1">{t(lang, 'analytics')}</h2>
+            <p className="text-zinc-500 text-sm">{t(lang, 'analyticsDesc')}</p>
+          </div>
+          <div className="flex bg-zinc-200 dark:bg-zinc-800 rounded-lg p-1 self-start sm:self-auto">
+            {RANGES.map(r => (
+              <button
+                key={r}
+                onClick={() => setRange(r)}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${range === r ? 'bg-white dark:bg-zinc-600 shadow-sm text-zinc-900 dark:text-white' : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-300'}`}
+              >
+                {t(lang, RANGE_LABEL_KEYS[r])}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Per-habit completion and streaks */}
+        <h3 className="text-sm font-semibold text-zinc-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+          <BarChart3 size={14} /> {t(lang, 'completionByHabit')}
+        </h3>
+        {habitStats.length === 0 ? (
+          <p className="text-sm text-zinc-400 py-6 text-center">{t(lang, 'noHabits')}</p>
+        ) : (
+          <div className="space-y-3">
+            {habitStats.map(({ habit, completion, streaks }) => (
+              <div key={habit.id} className="p-3 bg-zinc-50 dark:bg-zinc-900/50 rounded-xl border border-zinc-100 dark:border-zinc-800">
+                <div className="flex items-center justify-between gap-3 mb-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: habit.color }} />
+                    <span className="font-semibold text-sm text-zinc-900 dark:text-zinc-100 truncate">{habit.title}</span>
+                  </div>
+                  <div className="flex items-center gap-3 text-xs text-zinc-500 flex-shrink-0">
+                    <span className="flex items-center gap-1" title={t(lang, 'currentStreak')}>
+                      <Flame size={12} /> {streaks.current}
+                    </span>
+                    <span className="flex items-center gap-1" title={t(lang, 'bestStreak')}>
+                      <Trophy size={12} /> {streaks.best}
+                    </span>
+                    <span className="font-bold text-zinc-900 dark:text-white w-10 text-right">{completion.rate}%</span>
+                  </div>
+                </div>
+                <div className="h-1.5 bg-zinc-200 dark:bg-zinc-800 rounded-full overflow-hidden">
+                  <div
+                    className="h-full rounded-full transition-all duration-700 ease-out"
+                    style={{ width: `${completion.rate}%`, backgroundColor: habit.color }}
+                  />
+                </div>
+                <p className="text-[10px] text-zinc-400 mt-1.5">
+                  {t(lang, 'completedOfDays', { completed: completion.completed, total: completion.total })}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Weekday distribution */}
+        <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-2xl p-6">
+          <h3 className="text-sm font-semibold text-zinc-500 uppercase tracking-wider mb-4 flex items-center gap-2">
+            <CalendarDays size={14} /> {t(lang, 'weekdayDistribution')}
+          </h3>
+          <BarChart values={weekday.values} labels={weekday.labels} />
+        </div>
+
+        {/* Time of day */}
+        <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-2xl p-6">
+          <h3 className="text-sm font-semibold text-zinc-500 uppercase tracking-wider mb-4 flex items-center gap-2">
+            <Clock size={14} /> {t(lang, 'timeOfDay')}
+          </h3>
+          {hasTimedLogs ? (
+            <BarChart values={hours} labels={hourLabels} />
+          ) : (
+            <p className="text-sm text-zinc-400 h-32 flex items-center justify-center text-center">{t(lang, 'noTimedLogs')}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
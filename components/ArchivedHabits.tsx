@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore, ChevronDown, ChevronRight, Trash2 } from 'lucide-react';
+import { Habit, DailyLog, Language, WeekStart } from '../types';
+import { Heatmap } from './Heatmap';
+import { t } from '../utils/i18n';
+import { isMeasurable } from '../utils/habits';
+import { LongPressButton } from '../App';
+
+interface ArchivedHabitsProps {
+  habits: Habit[];
+  onRestore: (habitId: string) => void;
+  onDelete: (habitId: string) => void;
+  lang: Language;
+  weekStart: WeekStart;
+  splitMonths?: boolean;
+}
+
+// Retired habits keep their history here, read-only, until restored or deleted for good
+export const ArchivedHabits: React.FC<ArchivedHabitsProps> = ({
+  habits,
+  onRestore,
+  onDelete,
+  lang,
+  weekStart,
+  splitMonths = false
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (habits.length === 0) return null;
+
+  return (
+    <div className="col-span-full mt-4">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-2 px-2 py-1 text-sm font-semibold text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+      >
+        {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+        <Archive size={14} />
+        {t(lang, 'archivedHabits')} ({habits.length})
+      </button>
+
+      {isExpanded && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-2 mt-2 animate-in slide-in-from-top-2 duration-200">
+          {habits.map(habit => {
+            const totalCompleted = Object.values(habit.logs).filter((l: DailyLog) => l.completed).length;
+            return (
+              <div
+                key={habit.id}
+                className="bg-white/60 dark:bg-zinc-900/60 border border-dashed border-zinc-300 dark:border-zinc-700 rounded-2xl p-3 flex flex-col gap-2"
+              >
+                <div className="flex justify-between items-center gap-3 pl-5">
+                  <div className="min-w-0 flex-1">
+                    <h3 className="text-base font-bold tracking-tight text-zinc-500 dark:text-zinc-400 truncate">
+                      {habit.title}
+                    </h3>
+                    <p className="text-[10px] text-zinc-400 dark:text-zinc-500 font-medium">
+                      {totalCompleted} {t(lang, 'totalCompletions')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => onRestore(habit.id)}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-semibold bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+                    >
+                      <ArchiveRestore size={14} />
+                      {t(lang, 'restore')}
+                    </button>
+                    <LongPressButton
+                      onComplete={() => onDelete(habit.id)}
+                      className="px-3 py-1.5 rounded-full text-rose-500 border border-rose-300 dark:border-rose-400/60 transition-colors"
+                      duration={3000}
+                      title={t(lang, 'holdToDelete')}
+                    >
+                      <Trash2 size={14} />
+                    </LongPressButton>
+                  </div>
+                </div>
+
+                <div className="w-full pt-1 opacity-80">
+                  <Heatmap
+                    logs={habit.logs}
+                    color={habit.color}
+                    onClickDay={() => {}}
+                    interactive={false}
+                    weekStart={weekStart}
+                    splitMonths={splitMonths}
+                    lang={lang}
+                    target={isMeasurable(habit) ? habit.target : undefined}
+                    unit={habit.unit}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, History, Loader2, RotateCcw, AlertTriangle, Lock } from 'lucide-react';
+import { FileStat } from 'webdav';
+import { AppData, Language } from '../types';
+import { t } from '../utils/i18n';
+import { createWebDavClient, listBackupFiles, downloadBackup } from '../utils/webdav';
+import { summarizeBackup, diffBackup, restoreHabits, restoreAll, HabitDiff } from '../utils/backup';
+import { getSessionPassphrase, setSessionPassphrase, PassphraseError } from '../utils/crypto';
+import { PassphrasePrompt } from './PassphrasePrompt';
+
+interface BackupBrowserProps {
+  data: AppData;
+  lang: Language;
+  onRestore: (data: AppData) => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const STATUS_STYLES: Record<HabitDiff['status'], string> = {
+  added: 'text-emerald-500',
+  removed: 'text-rose-500',
+  changed: 'text-amber-500',
+  same: 'text-zinc-400',
+};
+
+export const BackupBrowser: React.FC<BackupBrowserProps> = ({ data, lang, onRestore }) => {
+  const [files, setFiles] = useState<FileStat[] | null>(null);
+  // 'locked': encrypted and the session has no (or the wrong) passphrase
+  const [contents, setContents] = useState<Record<string, AppData | 'error' | 'locked'>>({});
+  const [error, setError] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [selectedHabits, setSelectedHabits] = useState<string[]>([]);
+  const [restored, setRestored] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [unlockPrompt, setUnlockPrompt] = useState<{ error?: string } | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const webDav = data.settings.webDav;
+  const locale = lang === 'zh' ? 'zh-CN' : 'en-US';
+
+  const client = useMemo(() => {
+    if (!webDav?.url || !webDav.username) return null;
+    return createWebDavClient(webDav.url, webDav.username, webDav.password, webDav.proxyUrl);
+  }, [webDav?.url, webDav?.username, webDav?.password, webDav?.proxyUrl]);
+
+  // List the backups, then download them one by one to show their counts
+  useEffect(() => {
+    if (!client) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const list = await listBackupFiles(client);
+        if (cancelled) return;
+        setFiles(list);
+        for (const file of list) {
+          try {
+            const backup = await downloadBackup(client, file.filename, getSessionPassphrase());
+            if (cancelled) return;
+            setContents(prev => ({ ...prev, [file.filename]: backup }));
+          } catch (e) {
+            if (cancelled) return;
+            if (e instanceof PassphraseError) {
+              setContents(prev => ({ ...prev, [file.filename]: 'locked' }));
+            } else {
+              console.error('Failed to download backup:', file.filename, e);
+              setContents(prev => ({ ...prev, [file.filename]: 'error' }));
+            }
+          }
+        }
+      } catch (e) {
+        console.error('Failed to list backups:', e);
+        if (!cancelled) setError(true);
+      }
+    })();
+
+    return () => { cancelled = true; };
+  }, [client, reloadKey]);
+
+  const lockedFiles = Object.keys(contents).filter(filename => contents[filename] === 'locked');
+
+  // Check the passphrase against one locked backup before reloading the rest with it
+  const handleUnlock = async (passphrase: string) => {
+    if (!client || lockedFiles.length === 0) return;
+    setIsUnlocking(true);
+    try {
+      await downloadBackup(client, lockedFiles[0], passphrase);
+      setSessionPassphrase(passphrase);
+      setUnlockPrompt(null);
+      setReloadKey(key => key + 1);
+    } catch (e) {
+      setUnlockPrompt({ error: e instanceof PassphraseError ? t(lang, 'incorrectPassphrase') : t(lang, 'importError') });
+    }
+    setIsUnlocking(false);
+  };
+
+  const selectedContent = selectedFile ? contents[selectedFile] : undefined;
+  const selectedBackup = selectedContent === 'locked' ? undefined : selectedContent;
+  const diffs = selectedBackup && selectedBackup !== 'error' ? diffBackup(data, selectedBackup) : [];
+  const restorableIds = diffs.filter(d => d.status === 'added' || d.status === 'changed').map(d => d.id);
+
+  const openBackup = (filename: string) => {
+    setSelectedFile(filename);
+    setSelectedHabits([]);
+    setRestored(false);
+  };
+
+  const toggleHabit = (id: string) => {
+    setSelectedHabits(prev => prev.includes(id) ? prev.filter(h => h !== id) : [...prev, id]);
+  };
+
+  const handleRestore = (all: boolean) => {
+    if (!selectedBackup || selectedBackup === 'error') return;
+    onRestore(all ? restoreAll(data, selectedBackup) : restoreHabits(data, selectedBackup, selectedHabits));
+    setSelectedHabits([]);
+    setRestored(true);
+  };
+
+  const unlockPromptElement = (
+    <PassphrasePrompt
+      isOpen={!!unlockPrompt}
+      lang={lang}
+      description={t(lang, 'restorePassphraseDesc')}
+      error={unlockPrompt?.error}
+      isBusy={isUnlocking}
+      onSubmit={handleUnlock}
+      onCancel={() => setUnlockPrompt(null)}
+    />
+  );
+
+  if (error) {
+    return (
+      <p className="text-xs text-rose-500 flex items-center gap-1.5">
+        <AlertTriangle size={12} /> {t(lang, 'connectionFailed')}
+      </p>
+    );
+  }
+
+  if (!files) {
+    return (
+      <p className="text-xs text-zinc-400 flex items-center gap-1.5">
+        <Loader2 size={12} className="animate-spin" /> {t(lang, 'loadingBackups')}
+      </p>
+    );
+  }
+
+  // Preview of one backup against the local data
+  if (selectedFile) {
+    return (
+      <div className="space-y-3">
+        <button
+          onClick={() => setSelectedFile(null)}
+          className="flex items-center gap-1 text-xs font-medium text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+        >
+          <ArrowLeft size={12} /> {t(lang, 'backups')}
+        </button>
+
+        {selectedContent === 'locked' ? (
+          <button
+            onClick={() => setUnlockPrompt({})}
+            className="flex items-center gap-1.5 text-xs font-medium text-amber-500 hover:underline"
+          >
+            <Lock size={12} /> {t(lang, 'unlockBackups')}
+          </button>
+        ) : !selectedBackup ? (
+          <p className="text-xs text-zinc-400 flex items-center gap-1.5">
+            <Loader2 size={12} className="animate-spin" /> {t(lang, 'loadingBackups')}
+          </p>
+        ) : selectedBackup === 'error' ? (
+          <p className="text-xs text-rose-500">{t(lang, 'importError')}</p>
+        ) : (
+          <>
+            <p className="text-[10px] text-zinc-400">{t(lang, 'backupPreviewDesc')}</p>
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {diffs.map(diff => {
+                const selectable = restorableIds.includes(diff.id);
+                return (
+                  <label
+                    key={diff.id}
+                    className={`flex items-center gap-2 p-2 rounded-lg text-xs ${selectable ? 'cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-800/50' : 'opacity-60'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      disabled={!selectable}
+                      checked={selectedHabits.includes(diff.id)}
+                      onChange={() => toggleHabit(diff.id)}
+                      className="accent-zinc-900 dark:accent-zinc-100"
+                    />
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: diff.color }} />
+                    <span className="flex-1 truncate font-medium text-zinc-700 dark:text-zinc-300">{diff.title}</span>
+                    <span className={`flex-shrink-0 font-medium ${STATUS_STYLES[diff.status]}`}>
+                      {diff.status === 'changed'
+                        ? t(lang, 'diffChanged', { added: diff.logsAdded, removed: diff.logsRemoved, changed: diff.logsChanged })
+                        : t(lang, diff.status === 'added' ? 'diffAdded' : diff.status === 'removed' ? 'diffRemoved' : 'diffSame')}
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+
+            <div className="flex items-center gap-2 pt-1">
+              <button
+                onClick={() => handleRestore(false)}
+                disabled={selectedHabits.length === 0}
+                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 border border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 rounded-lg text-xs font-medium hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+              >
+                {t(lang, 'restoreSelected', { count: selectedHabits.length })}
+              </button>
+              <button
+                onClick={() => handleRestore(true)}
+                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 rounded-lg text-xs font-medium hover:opacity-90 transition-opacity"
+              >
+                <RotateCcw size={14} />
+                {t(lang, 'restoreAll')}
+              </button>
+            </div>
+            {restored && <p className="text-emerald-500 text-xs">{t(lang, 'importSuccess')}</p>}
+          </>
+        )}
+        {unlockPromptElement}
+      </div>
+    );
+  }
+
+  if (files.length === 0) {
+    return <p className="text-xs text-zinc-400">{t(lang, 'noBackups')}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {lockedFiles.length > 0 && (
+        <button
+          onClick={() => setUnlockPrompt({})}
+          className="flex items-center gap-1.5 text-xs font-medium text-amber-500 hover:underline"
+        >
+          <Lock size={12} /> {t(lang, 'unlockBackups')}
+        </button>
+      )}
+      <div className="space-y-1 max-h-64 overflow-y-auto">
+        {files.map(file => {
+          const content = contents[file.filename];
+          const summary = content && content !== 'error' && content !== 'locked' ? summarizeBackup(content) : null;
+          return (
+            <button
+              key={file.filename}
+              onClick={() => openBackup(file.filename)}
+              className="w-full flex items-center justify-between gap-3 p-2 rounded-lg text-left hover:bg-zinc-50 dark:hover:bg-zinc-800/50 transition-colors"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <History size={14} className="text-zinc-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-zinc-700 dark:text-zinc-300 truncate">
+                    {new Date(file.lastmod).toLocaleString(locale)}
+                  </p>
+                  <p className="text-[10px] text-zinc-400">{formatSize(file.size)}</p>
+                </div>
+              </div>
+              <span className="text-[10px] text-zinc-400 flex-shrink-0">
+                {summary
+                  ? t(lang, 'backupCounts', { habits: summary.habits, logs: summary.logs })
+                  : content === 'locked' ? <Lock size={10} />
+                  : content === 'error' ? '—' : <Loader2 size={10} className="animate-spin" />}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      {unlockPromptElement}
+    </div>
+  );
+};
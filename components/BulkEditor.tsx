@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { differenceInCalendarDays } from 'date-fns';
+import { AppData, Language } from '../types';
+import { t, TranslationKey } from '../utils/i18n';
+import { getHabitStartDate, isMeasurable } from '../utils/habits';
+import { getDateKeysBetween, isValidDateKey, parseDateKey, toDateKey } from '../utils/date';
+import { BulkEdit, countChangedLogs, habitReducer } from '../utils/habitReducer';
+
+export interface BulkSelection {
+  habitIds: string[];
+  start: string; // YYYY-MM-DD
+  end: string;
+}
+
+interface BulkEditorProps {
+  data: AppData;
+  initial: BulkSelection;
+  lang: Language;
+  onApply: (habitIds: string[], dates: string[], edit: BulkEdit) => void;
+}
+
+const MODES: { type: BulkEdit['type']; labelKey: TranslationKey }[] = [
+  { type: 'complete', labelKey: 'bulkEditComplete' },
+  { type: 'uncomplete', labelKey: 'bulkEditUncomplete' },
+  { type: 'setValue', labelKey: 'bulkEditSetValue' },
+  { type: 'setNote', labelKey: 'bulkEditSetNote' },
+];
+
+// Longest range that is previewed and applied, so a half-typed year can't build years of days
+const MAX_DAYS = 366;
+
+// Backfilling a week from a paper log: pick habits and a date range, choose one change, and see
+// how many logs it touches before applying it as a single undoable step
+export const BulkEditor: React.FC<BulkEditorProps> = ({ data, initial, lang, onApply }) => {
+  const habits = data.habits.filter(h => !h.archived);
+  const todayKey = toDateKey(new Date());
+  const [habitIds, setHabitIds] = useState<string[]>(initial.habitIds);
+  const [start, setStart] = useState(initial.start);
+  const [end, setEnd] = useState(initial.end);
+  const [mode, setMode] = useState<BulkEdit['type']>('complete');
+  const [value, setValue] = useState('');
+  const [note, setNote] = useState('');
+
+  const hasMeasurable = habits.some(h => habitIds.includes(h.id) && isMeasurable(h));
+  const modes = MODES.filter(m => m.type !== 'setValue' || hasMeasurable);
+
+  const edit = useMemo((): BulkEdit | null => {
+    switch (mode) {
+      case 'complete':
+      case 'uncomplete':
+        return { type: mode };
+      case 'setValue': {
+        const amount = parseFloat(value);
+        return hasMeasurable && !isNaN(amount) && amount >= 0 ? { type: 'setValue', value: amount } : null;
+      }
+      case 'setNote':
+        return { type: 'setNote', note };
+    }
+  }, [mode, value, note, hasMeasurable]);
+
+  // The range is clamped to the earliest start of the chosen habits and to today, like everywhere
+  // else check-ins are made. The reducer leaves out the days before each habit's own start.
+  const { dates, isTooLong } = useMemo(() => {
+    const none = { dates: [] as string[], isTooLong: false };
+    const selected = data.habits.filter(h => habitIds.includes(h.id));
+    if (!isValidDateKey(start) || !isValidDateKey(end) || selected.length === 0) return none;
+    const habitStart = toDateKey(new Date(Math.min(...selected.map(h => getHabitStartDate(h).getTime()))));
+    const [from, to] = start <= end ? [start, end] : [end, start];
+    const first = from < habitStart ? habitStart : from;
+    const last = to > todayKey ? todayKey : to;
+    if (first > last) return none;
+    if (differenceInCalendarDays(parseDateKey(last), parseDateKey(first)) >= MAX_DAYS) return { dates: [], isTooLong: true };
+    return { dates: getDateKeysBetween(parseDateKey(first), parseDateKey(last)), isTooLong: false };
+  }, [data.habits, habitIds, start, end, todayKey]);
+
+  const changedCount = useMemo(() => {
+    if (!edit || dates.length === 0 || habitIds.length === 0) return 0;
+    return countChangedLogs(data, habitReducer(data, { type: 'bulkEdit', habitIds, dates, edit, now: new Date().toISOString() }));
+  }, [data, habitIds, dates, edit]);
+
+  const toggleHabit = (id: string) => {
+    setHabitIds(prev => prev.includes(id) ? prev.filter(h => h !== id) : [...prev, id]);
+  };
+
+  const inputClass = "w-full px-3 py-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 border-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100 outline-none transition-all dark:text-white text-sm";
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">{t(lang, 'bulkEditHabits')}</label>
+        <div className="flex flex-wrap gap-2">
+          {habits.map(habit => {
+            const selected = habitIds.includes(habit.id);
+            return (
+              <button
+                key={habit.id}
+                onClick={() => toggleHabit(habit.id)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-all ${selected ? 'bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500 hover:bg-zinc-200 dark:hover:bg-zinc-700'}`}
+              >
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: habit.color }} />
+                {habit.title}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">{t(lang, 'bulkEditFrom')}</label>
+          <input type="date" value={start} max={todayKey} onChange={(e) => setStart(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">{t(lang, 'bulkEditTo')}</label>
+          <input type="date" value={end} max={todayKey} onChange={(e) => setEnd(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap bg-zinc-200 dark:bg-zinc-800 rounded-lg p-1 gap-0.5">
+          {modes.map(m => (
+            <button
+              key={m.type}
+              onClick={() => setMode(m.type)}
+              className={`flex-1 px-2 py-1.5 text-xs font-medium rounded-md transition-all whitespace-nowrap ${mode === m.type ? 'bg-white dark:bg-zinc-600 shadow-sm text-zinc-900 dark:text-white' : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-300'}`}
+            >
+              {t(lang, m.labelKey)}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'setValue' && hasMeasurable && (
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className={inputClass}
+          />
+        )}
+
+        {mode === 'setNote' && (
+          <div className="space-y-1.5">
+            <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} className={`${inputClass} resize-none`} />
+            <p className="text-xs text-zinc-400 dark:text-zinc-500">{t(lang, 'bulkEditNoteHint')}</p>
+          </div>
+        )}
+      </div>
+
+      <p className="text-sm text-center text-zinc-500 dark:text-zinc-400">
+        {isTooLong
+          ? t(lang, 'bulkEditTooLong', { days: MAX_DAYS })
+          : changedCount > 0
+            ? t(lang, 'bulkEditPreview', { count: changedCount, days: dates.length, habits: habitIds.length })
+            : t(lang, 'bulkEditNothing')}
+      </p>
+
+      <button
+        onClick={() => edit && onApply(habitIds, dates, edit)}
+        disabled={changedCount === 0}
+        className={`w-full py-3 rounded-lg font-semibold transition-opacity ${
+          changedCount > 0
+            ? 'bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 hover:opacity-90'
+            : 'bg-zinc-300 dark:bg-zinc-700 text-zinc-500 dark:text-zinc-500 cursor-not-allowed'
+        }`}
+      >
+        {t(lang, 'bulkEditApply')}
+      </button>
+    </div>
+  );
+};
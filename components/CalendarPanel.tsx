@@ -1,8 +1,11 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, startOfWeek, endOfWeek, isSameDay, isSameMonth, addMonths, subMonths, isAfter, startOfDay } from 'date-fns';
+import { format, startOfMonth, isSameDay, isSameMonth, addMonths, subMonths, isAfter, startOfDay } from 'date-fns';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { Habit, DailyLog, Language, WeekStart } from '../types';
 import { t } from '../utils/i18n';
+import { getLogProgress } from '../utils/habits';
+import { getDayStatus } from '../utils/schedule';
+import { getMonthGrid } from '../utils/calendar';
 
 // 判断颜色是深色还是浅色，返回 true 表示浅色（应该用黑色文字），false 表示深色（应该用白色文字）
 const isLightColor = (hexColor: string): boolean => {
@@ -26,25 +29,35 @@ const isLightColor = (hexColor: string): boolean => {
 interface DateButtonProps {
   day: Date;
   isCompleted: boolean;
+  progress: number; // 0-1，数值型习惯的目标完成比例
   isInMonth: boolean;
   isSelected: boolean;
   isToday: boolean;
   isFuture: boolean;
+  isOff: boolean; // 按计划当天无需打卡
+  isInDrag: boolean; // 在拖动选择的范围内
   color: string;
   onDateClick: (date: Date) => void;
   onDateLongPress: (date: Date) => void;
+  onDragStart?: (date: Date) => void;
+  onDragEnter?: (date: Date) => void;
 }
 
 const DateButton: React.FC<DateButtonProps> = ({
   day,
   isCompleted,
+  progress,
   isInMonth,
   isSelected,
   isToday,
   isFuture,
+  isOff,
+  isInDrag,
   color,
   onDateClick,
-  onDateLongPress
+  onDateLongPress,
+  onDragStart,
+  onDragEnter
 }) => {
   const longPressTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isLongPressingRef = useRef(false);
@@ -85,6 +98,7 @@ const DateButton: React.FC<DateButtonProps> = ({
     // 阻止默认行为，防止文本选择等
     e.preventDefault();
     startLongPress();
+    if (e.button === 0) onDragStart?.(day);
   };
 
   const handleMouseUp = (e?: React.MouseEvent) => {
@@ -171,6 +185,7 @@ const DateButton: React.FC<DateButtonProps> = ({
     <button
       onMouseDown={handleMouseDown}
       onMouseUp={(e) => handleMouseUp(e)}
+      onMouseEnter={() => !isFuture && onDragEnter?.(day)}
       onMouseLeave={(e) => {
         // 如果长按已完成，不要触发任何操作
         if (hasCompletedLongPressRef.current) {
@@ -202,6 +217,7 @@ const DateButton: React.FC<DateButtonProps> = ({
           ? 'opacity-40 cursor-not-allowed' 
           : 'cursor-pointer'
         }
+        ${isOff && !isCompleted && !isFuture ? 'opacity-50' : ''}
         ${isCompleted && !isFuture
           ? '' // 已打卡日期的文字颜色由 style 动态设置
           : isInMonth 
@@ -210,7 +226,11 @@ const DateButton: React.FC<DateButtonProps> = ({
               : 'text-zinc-900 dark:text-zinc-100'
             : 'text-zinc-400 dark:text-zinc-600'
         }
-        ${isSelected && !isFuture
+        ${isInDrag
+          ? 'ring-2 ring-zinc-900 dark:ring-zinc-100'
+          : ''
+        }
+        ${isSelected && !isFuture && !isInDrag
           ? 'ring-2 ring-offset-2 ring-zinc-900 dark:ring-zinc-100 ring-offset-zinc-50 dark:ring-offset-zinc-900' 
           : ''
         }
@@ -237,6 +257,13 @@ const DateButton: React.FC<DateButtonProps> = ({
       }}
       title={format(day, 'yyyy-MM-dd')}
     >
+      {/* 数值型习惯：未达标时按完成比例从底部填充 */}
+      {!isCompleted && !isFuture && progress > 0 && (
+        <div 
+          className="absolute inset-x-0 bottom-0 pointer-events-none"
+          style={{ height: `${progress * 100}%`, backgroundColor: color, opacity: 0.35 }}
+        />
+      )}
       {/* 长按进度填充 */}
       {!isFuture && (
         <div 
@@ -258,6 +285,7 @@ interface CalendarPanelProps {
   selectedDate: Date;
   onDateClick: (date: Date) => void;
   onDateLongPress: (date: Date) => void;
+  onSelectRange?: (start: Date, end: Date) => void; // 鼠标拖过多天时选中这段日期
   lang: Language;
   weekStart: WeekStart;
 }
@@ -267,10 +295,17 @@ export const CalendarPanel: React.FC<CalendarPanelProps> = ({
   selectedDate,
   onDateClick,
   onDateLongPress,
+  onSelectRange,
   lang,
   weekStart
 }) => {
   const [currentMonth, setCurrentMonth] = useState(() => startOfMonth(selectedDate));
+  // 拖动选择：开始的日期和鼠标当前所在的日期
+  const [drag, setDrag] = useState<{ anchor: Date; current: Date } | null>(null);
+  const dragRef = useRef(drag);
+  dragRef.current = drag;
+  const onSelectRangeRef = useRef(onSelectRange);
+  onSelectRangeRef.current = onSelectRange;
   const isManualMonthChangeRef = useRef(false);
   const today = new Date();
 
@@ -289,14 +324,35 @@ export const CalendarPanel: React.FC<CalendarPanelProps> = ({
   }, [selectedDate]);
 
   // 计算当前月份的所有日期
-  const monthStart = startOfMonth(currentMonth);
-  const monthEnd = endOfMonth(currentMonth);
-  const calendarStart = startOfWeek(monthStart, { weekStartsOn: weekStart === 'monday' ? 1 : 0 });
-  const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: weekStart === 'monday' ? 1 : 0 });
+  const days = useMemo(() => getMonthGrid(currentMonth, weekStart), [currentMonth, weekStart]);
+
+  // 在任意位置松开鼠标都结束拖动；拖过不止一天时交给 onSelectRange
+  useEffect(() => {
+    const handleMouseUp = () => {
+      const current = dragRef.current;
+      if (!current) return;
+      setDrag(null);
+      if (!isSameDay(current.anchor, current.current)) {
+        const [start, end] = current.anchor < current.current ? [current.anchor, current.current] : [current.current, current.anchor];
+        onSelectRangeRef.current?.(start, end);
+      }
+    };
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, []);
 
-  const days = useMemo(() => {
-    return eachDayOfInterval({ start: calendarStart, end: calendarEnd });
-  }, [calendarStart, calendarEnd]);
+  // 拖动跨过多天时，松开鼠标不算单击
+  const handleDateClick = (date: Date) => {
+    const current = dragRef.current;
+    if (current && !isSameDay(current.anchor, current.current)) return;
+    onDateClick(date);
+  };
+
+  const isDateInDrag = (date: Date) => {
+    if (!drag || isSameDay(drag.anchor, drag.current)) return false;
+    const [start, end] = drag.anchor < drag.current ? [drag.anchor, drag.current] : [drag.current, drag.anchor];
+    return date >= startOfDay(start) && date <= startOfDay(end);
+  };
 
   // 星期标签
   const weekDayLabels = useMemo(() => {
@@ -408,23 +464,30 @@ export const CalendarPanel: React.FC<CalendarPanelProps> = ({
       <div className="grid grid-cols-7 gap-1">
         {days.map((day, index) => {
           const isCompleted = isDateCompleted(day);
+          const progress = getLogProgress(habit, getLogForDate(day));
           const isInMonth = isDateInCurrentMonth(day);
           const isSelected = isDateSelected(day);
           const isToday = isDateToday(day);
           const isFuture = isDateFuture(day);
+          const isOff = getDayStatus(habit, day, weekStart) === 'off';
 
           return (
             <DateButton
               key={index}
               day={day}
               isCompleted={isCompleted}
+              progress={progress}
               isInMonth={isInMonth}
               isSelected={isSelected}
               isToday={isToday}
               isFuture={isFuture}
+              isOff={isOff}
+              isInDrag={isDateInDrag(day)}
               color={habit.color}
-              onDateClick={onDateClick}
+              onDateClick={handleDateClick}
               onDateLongPress={onDateLongPress}
+              onDragStart={onSelectRange ? (date) => setDrag({ anchor: date, current: date }) : undefined}
+              onDragEnter={(date) => dragRef.current && setDrag({ ...dragRef.current, current: date })}
             />
           );
         })}
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { Sheet } from 'lucide-react';
+import { AppData, Language } from '../types';
+import { t, TranslationKey } from '../utils/i18n';
+import { CSV_FIELDS, CsvField, CsvMapping, csvToAppData, guessCsvMapping } from '../utils/csv';
+import { getHabiticaMapping } from '../utils/importers';
+import { ValidationResult } from '../utils/validation';
+import { Modal } from './Modal';
+
+export interface CsvFile {
+  headers: string[];
+  rows: string[][];
+}
+
+interface CsvImportDialogProps {
+  csv: CsvFile | null;
+  local: AppData;
+  lang: Language;
+  onContinue: (result: ValidationResult) => void;
+  onCancel: () => void;
+}
+
+const FIELD_KEYS: Record<CsvField, TranslationKey> = {
+  habit_title: 'csvHabitTitle',
+  habit_id: 'csvHabitId',
+  date: 'csvDate',
+  completed: 'csvCompleted',
+  value: 'csvValue',
+  note: 'notes',
+  rating: 'csvRating',
+  timestamp: 'csvTimestamp',
+};
+
+// First step of a CSV import: decide which column feeds which field, guessed from the headers
+// (or preset for known layouts such as Habitica's task history)
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ csv, local, lang, onContinue, onCancel }) => {
+  const [mapping, setMapping] = useState<CsvMapping>({});
+
+  useEffect(() => {
+    if (csv) setMapping(getHabiticaMapping(csv.headers) || guessCsvMapping(csv.headers));
+  }, [csv]);
+
+  const canContinue = mapping.date !== undefined && (mapping.habit_title !== undefined || mapping.habit_id !== undefined);
+
+  const handleContinue = () => {
+    if (!csv || !canContinue) return;
+    const { data, issues } = csvToAppData(csv.rows, mapping, local);
+    onContinue({ data, issues });
+  };
+
+  return (
+    <Modal
+      isOpen={!!csv}
+      onClose={onCancel}
+      title={
+        <span className="flex items-center gap-2">
+          <Sheet size={18} className="text-zinc-500" />
+          {t(lang, 'csvColumns')}
+        </span>
+      }
+    >
+      {csv && (
+        <div className="space-y-4">
+          <p className="text-xs text-zinc-500">{t(lang, 'csvColumnsDesc', { count: csv.rows.length })}</p>
+
+          <div className="space-y-2">
+            {CSV_FIELDS.map(field => (
+              <div key={field} className="flex items-center justify-between gap-3">
+                <label className="text-xs font-medium text-zinc-600 dark:text-zinc-300">{t(lang, FIELD_KEYS[field])}</label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value === '' ? undefined : Number(e.target.value) }))}
+                  className="w-1/2 px-2 py-1.5 bg-zinc-100 dark:bg-zinc-800 rounded-lg text-xs outline-none focus:ring-2 focus:ring-zinc-500"
+                >
+                  <option value="">{t(lang, 'csvNotMapped')}</option>
+                  {csv.headers.map((header, i) => (
+                    <option key={i} value={i}>{header || `#${i + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {!canContinue && <p className="text-[10px] text-rose-500">{t(lang, 'csvRequiredColumns')}</p>}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={onCancel}
+              className="flex-1 py-3 rounded-lg font-semibold border-2 border-zinc-300 dark:border-zinc-600 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+            >
+              {t(lang, 'cancel')}
+            </button>
+            <button
+              onClick={handleContinue}
+              disabled={!canContinue}
+              className={`flex-1 py-3 rounded-lg font-semibold transition-opacity ${
+                canContinue
+                  ? 'bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 hover:opacity-90'
+                  : 'bg-zinc-300 dark:bg-zinc-700 text-zinc-500 dark:text-zinc-500 cursor-not-allowed'
+              }`}
+            >
+              {t(lang, 'continue')}
+            </button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
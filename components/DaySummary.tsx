@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { Check } from 'lucide-react';
+import { Habit, Language, WeekStart } from '../types';
+import { t } from '../utils/i18n';
+import { getDaySummary } from '../utils/analytics';
+
+interface DaySummaryProps {
+  habits: Habit[];
+  date: Date;
+  weekStart: WeekStart;
+  lang: Language;
+  onSave: (completed: Record<string, boolean>) => void;
+}
+
+// Every habit that had started by `date`, to tick off several at once. Nothing is saved until Save.
+export const DaySummary: React.FC<DaySummaryProps> = ({ habits, date, weekStart, lang, onSave }) => {
+  const summary = useMemo(() => getDaySummary(habits, date, weekStart), [habits, date, weekStart]);
+  // Due habits first, then the ones that were optional or off that day
+  const rows = useMemo(() => [
+    ...[...summary.done, ...summary.missed].map(habit => ({ habit, tag: null })),
+    ...summary.optional.map(habit => ({ habit, tag: t(lang, 'daySummaryOptional') })),
+    ...summary.off.map(habit => ({ habit, tag: t(lang, 'daySummaryOff') })),
+  ], [summary, lang]);
+
+  const [checked, setChecked] = useState<Record<string, boolean>>(() =>
+    Object.fromEntries(summary.done.map(habit => [habit.id, true]))
+  );
+
+  const changed = rows.some(({ habit }) => !!checked[habit.id] !== summary.done.includes(habit));
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-zinc-500 dark:text-zinc-400 text-center py-6">{t(lang, 'daySummaryEmpty')}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-zinc-500 dark:text-zinc-400">{t(lang, 'daySummaryHint')}</p>
+      <div className="space-y-1.5 max-h-80 overflow-y-auto">
+        {rows.map(({ habit, tag }) => {
+          const isChecked = !!checked[habit.id];
+          return (
+            <button
+              key={habit.id}
+              onClick={() => setChecked(prev => ({ ...prev, [habit.id]: !isChecked }))}
+              className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg bg-zinc-50 dark:bg-zinc-800/50 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors text-left"
+            >
+              <span
+                className={`w-5 h-5 rounded-md flex items-center justify-center flex-shrink-0 transition-colors ${isChecked ? 'text-white' : 'border-2 border-zinc-300 dark:border-zinc-600'}`}
+                style={{ backgroundColor: isChecked ? habit.color : undefined }}
+              >
+                {isChecked && <Check size={14} strokeWidth={3} />}
+              </span>
+              <span className="flex-1 min-w-0 truncate text-sm font-medium text-zinc-900 dark:text-zinc-100">{habit.title}</span>
+              {tag && <span className="text-[10px] font-medium text-zinc-400 dark:text-zinc-500 flex-shrink-0">{tag}</span>}
+            </button>
+          );
+        })}
+      </div>
+      <button
+        onClick={() => onSave(Object.fromEntries(rows.map(({ habit }) => [habit.id, !!checked[habit.id]])))}
+        disabled={!changed}
+        className={`w-full py-3 rounded-lg font-semibold transition-opacity ${
+          changed
+            ? 'bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 hover:opacity-90'
+            : 'bg-zinc-300 dark:bg-zinc-700 text-zinc-500 dark:text-zinc-500 cursor-not-allowed'
+        }`}
+      >
+        {t(lang, 'save')}
+      </button>
+    </div>
+  );
+};
@@ -1,34 +1,51 @@
 
-import React, { useState, useEffect } from 'react';
-import { format, isSameMonth } from 'date-fns';
-import { Check } from 'lucide-react';
-import { Habit, DailyLog, Language, WeekStart } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, isSameMonth, startOfMonth, addDays, isAfter, isSameDay } from 'date-fns';
+import { Check, Flame, Minus, Plus, Star } from 'lucide-react';
+import { Habit, DailyLog, Language, WeekStart, HeatmapRange } from '../types';
 import { Heatmap } from './Heatmap';
+import { HeatmapRangePicker } from './HeatmapRangePicker';
 import { t } from '../utils/i18n';
+import { isMeasurable, formatAmount, getHabitStartDate } from '../utils/habits';
+import { getDayStatus, describeSchedule } from '../utils/schedule';
+import { getHabitStreaks } from '../utils/streaks';
+import { DEFAULT_HEATMAP_RANGE } from '../utils/calendar';
 
 interface HabitCardProps {
   habit: Habit;
   todayLog?: DailyLog;
   onToggleToday: (habitId: string) => void;
+  onAdjustToday: (habitId: string, delta: number) => void;
   onOpenDetail: (habit: Habit) => void;
   onDayClick: (habitId: string, date: Date) => void;
+  onSelectDays?: (habitId: string, start: Date, end: Date) => void;
   lang: Language;
   weekStart: WeekStart;
   splitMonths?: boolean;
+  streakFreezesPerMonth?: number;
 }
 
 export const HabitCard: React.FC<HabitCardProps> = ({ 
   habit, 
   todayLog, 
   onToggleToday, 
+  onAdjustToday,
   onOpenDetail, 
   onDayClick,
+  onSelectDays,
   lang,
   weekStart,
-  splitMonths = false
+  splitMonths = false,
+  streakFreezesPerMonth = 0
 }) => {
   const isCompleted = todayLog?.completed;
+  const measurable = isMeasurable(habit);
+  const todayValue = todayLog?.value ?? 0;
   const [animate, setAnimate] = useState(false);
+  const [heatmapRange, setHeatmapRange] = useState<HeatmapRange>(DEFAULT_HEATMAP_RANGE);
+  const habitStart = useMemo(() => getHabitStartDate(habit), [habit]);
+  const [colorByRating, setColorByRating] = useState(false);
+  const hasRatings = useMemo(() => Object.values(habit.logs).some((l: DailyLog) => l.rating), [habit.logs]);
 
   // Trigger animation when completed state becomes true
   useEffect(() => {
@@ -39,6 +56,11 @@ export const HabitCard: React.FC<HabitCardProps> = ({
     }
   }, [isCompleted]);
 
+  const streaks = useMemo(
+    () => getHabitStreaks(habit, weekStart, { freezesPerMonth: streakFreezesPerMonth }),
+    [habit, weekStart, streakFreezesPerMonth]
+  );
+
   // Calculate stats for current month
   const today = new Date();
   const currentMonthLogs = Object.values(habit.logs).filter((l: DailyLog) => {
@@ -47,11 +69,26 @@ export const HabitCard: React.FC<HabitCardProps> = ({
     return isSameMonth(logDate, today);
   }).length;
 
+  // Scheduled habits report against the days they were actually due so far this month
+  const isDaily = !habit.schedule || habit.schedule.type === 'daily';
+  let dueThisMonth = 0;
+  if (!isDaily) {
+    for (let d = startOfMonth(today); !isAfter(d, today); d = addDays(d, 1)) {
+      const isPendingToday = isSameDay(d, today) && !isCompleted;
+      if (!isPendingToday && getDayStatus(habit, d, weekStart) === 'due') dueThisMonth++;
+    }
+  }
+
   const handleToggle = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent opening detail when clicking the button
     onToggleToday(habit.id);
   };
 
+  const handleAdjust = (e: React.MouseEvent, delta: number) => {
+    e.stopPropagation();
+    onAdjustToday(habit.id, delta);
+  };
+
   return (
     <div className="group relative bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-2xl p-3 shadow-sm hover:shadow-md transition-all duration-300 flex flex-col gap-2 overflow-hidden">
       
@@ -64,12 +101,57 @@ export const HabitCard: React.FC<HabitCardProps> = ({
           onClick={() => onOpenDetail(habit)}
           title={t(lang, 'details')}
         >
-          <h3 className="text-lg font-bold tracking-tight text-zinc-900 dark:text-zinc-100 group-hover:text-zinc-600 dark:group-hover:text-zinc-300 transition-colors truncate">
-            {habit.title}
-          </h3>
+          <div className="flex items-center gap-2 min-w-0">
+            <h3 className="text-lg font-bold tracking-tight text-zinc-900 dark:text-zinc-100 group-hover:text-zinc-600 dark:group-hover:text-zinc-300 transition-colors truncate">
+              {habit.title}
+            </h3>
+            {streaks.current > 0 && (
+              <span 
+                className="flex items-center gap-0.5 text-xs font-semibold text-zinc-400 dark:text-zinc-500 flex-shrink-0"
+                title={`${t(lang, 'currentStreak')}: ${streaks.current} · ${t(lang, 'bestStreak')}: ${streaks.best}`}
+              >
+                <Flame size={12} className="text-orange-500" />
+                {streaks.current}
+              </span>
+            )}
+          </div>
         </div>
         
-        {/* Check-in Button - Pill Style */}
+        {measurable ? (
+          /* Amount Stepper - Pill Style, filled once the target is reached */
+          <div
+            className={`
+              flex items-center rounded-full transition-all duration-200 flex-shrink-0 text-xs font-semibold shadow-sm
+              ${isCompleted 
+                ? 'text-white shadow-md shadow-zinc-500/20' 
+                : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400'}
+              ${animate ? 'animate-pop' : ''}
+            `}
+            style={{
+              backgroundColor: isCompleted ? habit.color : undefined,
+            }}
+          >
+            <button
+              onClick={(e) => handleAdjust(e, -1)}
+              disabled={todayValue <= 0}
+              className="p-1.5 pl-2.5 rounded-l-full transition-opacity active:scale-90 disabled:opacity-30"
+              aria-label={t(lang, 'decrease')}
+            >
+              <Minus size={14} strokeWidth={3} />
+            </button>
+            <span className="px-1 tabular-nums whitespace-nowrap">
+              {formatAmount(todayValue)}/{formatAmount(habit.target!)}{habit.unit ? ` ${habit.unit}` : ''}
+            </span>
+            <button
+              onClick={(e) => handleAdjust(e, 1)}
+              className="p-1.5 pr-2.5 rounded-r-full transition-opacity active:scale-90"
+              aria-label={t(lang, 'increase')}
+            >
+              <Plus size={14} strokeWidth={3} />
+            </button>
+          </div>
+        ) : (
+        /* Check-in Button - Pill Style */
         <button
           onClick={handleToggle}
           className={`
@@ -95,6 +177,7 @@ export const HabitCard: React.FC<HabitCardProps> = ({
              </>
            )}
         </button>
+        )}
       </div>
 
       {/* Heatmap Visualization */}
@@ -103,17 +186,41 @@ export const HabitCard: React.FC<HabitCardProps> = ({
           logs={habit.logs} 
           color={habit.color} 
           onClickDay={(date) => onDayClick(habit.id, date)}
+          onSelectRange={onSelectDays && ((start, end) => onSelectDays(habit.id, start, end))}
           weekStart={weekStart}
           splitMonths={splitMonths}
           lang={lang}
+          target={measurable ? habit.target : undefined}
+          unit={habit.unit}
+          isDayOff={isDaily ? undefined : (date) => getDayStatus(habit, date, weekStart) === 'off'}
+          range={heatmapRange}
+          habitStart={habitStart}
+          colorByRating={colorByRating && hasRatings}
         />
       </div>
 
-      {/* Footer Stats - Centered at bottom */}
-      <div className="text-center">
-        <p className="text-[10px] text-zinc-400 dark:text-zinc-500 font-medium tracking-wide">
-            {t(lang, 'daysThisMonth', { count: currentMonthLogs })}
+      {/* Footer Stats - Centered at bottom, range picker on the right */}
+      <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+        <div>
+          {hasRatings && (
+            <button
+              onClick={() => setColorByRating(!colorByRating)}
+              aria-pressed={colorByRating}
+              title={t(lang, 'heatmapByRating')}
+              className={`flex items-center gap-1 px-1.5 py-1 rounded-md text-[10px] font-medium transition-colors ${colorByRating ? 'bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100' : 'text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100'}`}
+            >
+              <Star size={12} fill={colorByRating ? 'currentColor' : 'none'} />
+            </button>
+          )}
+        </div>
+        <p className="text-[10px] text-zinc-400 dark:text-zinc-500 font-medium tracking-wide text-center">
+            {isDaily
+              ? t(lang, 'daysThisMonth', { count: currentMonthLogs })
+              : `${describeSchedule(habit.schedule, lang)} · ${t(lang, 'dueDaysThisMonth', { count: currentMonthLogs, due: dueThisMonth })}`}
         </p>
+        <div className="justify-self-end">
+          <HeatmapRangePicker value={heatmapRange} onChange={setHeatmapRange} lang={lang} firstYear={habitStart.getFullYear()} />
+        </div>
       </div>
 
     </div>
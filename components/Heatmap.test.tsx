@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { DailyLog } from '../types';
+import { toDateKey } from '../utils/date';
+import { Heatmap } from './Heatmap';
+
+const log: DailyLog = { date: '2024-03-10', completed: true };
+
+describe('Heatmap', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2024, 4, 15, 18, 30));
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('has one cell per day up to today', () => {
+    const { container } = render(<Heatmap logs={{}} color="#10b981" onClickDay={() => {}} weekStart="monday" />);
+    const cells = container.querySelectorAll('[title]');
+    expect(new Set(Array.from(cells, cell => cell.getAttribute('title'))).size).toBe(cells.length);
+    expect(cells[cells.length - 1].getAttribute('title')).toBe('May 15, 2024');
+    expect(screen.queryByTitle('May 16, 2024')).toBeNull();
+  });
+
+  it('adds a column for every split month', () => {
+    const columns = (splitMonths: boolean) => {
+      const { container } = render(<Heatmap logs={{}} color="#10b981" onClickDay={() => {}} splitMonths={splitMonths} />);
+      const count = container.querySelectorAll('.min-w-max > div').length;
+      cleanup();
+      return count;
+    };
+    expect(columns(true)).toBeGreaterThan(columns(false));
+  });
+
+  it('passes the local day and its log on click, on the spring-forward day too', () => {
+    const onClickDay = vi.fn();
+    render(<Heatmap logs={{ '2024-03-10': log }} color="#10b981" onClickDay={onClickDay} />);
+    fireEvent.click(screen.getByTitle('Mar 10, 2024 - Done'));
+    expect(toDateKey(onClickDay.mock.calls[0][0])).toBe('2024-03-10');
+    expect(onClickDay.mock.calls[0][1]).toBe(log);
+  });
+
+  it('ignores clicks when not interactive', () => {
+    const onClickDay = vi.fn();
+    render(<Heatmap logs={{}} color="#10b981" onClickDay={onClickDay} interactive={false} />);
+    fireEvent.click(screen.getByTitle('Mar 10, 2024'));
+    expect(onClickDay).not.toHaveBeenCalled();
+  });
+
+  it('selects the days dragged across, in order', () => {
+    const onSelectRange = vi.fn();
+    render(<Heatmap logs={{}} color="#10b981" onClickDay={() => {}} onSelectRange={onSelectRange} />);
+    fireEvent.mouseDown(screen.getByTitle('Mar 12, 2024'));
+    fireEvent.mouseEnter(screen.getByTitle('Mar 11, 2024'));
+    fireEvent.mouseEnter(screen.getByTitle('Mar 9, 2024'));
+    fireEvent.mouseUp(screen.getByTitle('Mar 9, 2024'));
+    expect(onSelectRange).toHaveBeenCalledTimes(1);
+    expect(onSelectRange.mock.calls[0].map(toDateKey)).toEqual(['2024-03-09', '2024-03-12']);
+  });
+
+  it('colors rated days by their rating when asked', () => {
+    const logs = { '2024-03-10': { ...log, rating: 2 as const }, '2024-03-11': log };
+    render(<Heatmap logs={logs} color="#10b981" onClickDay={() => {}} colorByRating />);
+    expect(screen.getByTitle('Mar 10, 2024 - Performance Rating: 2/5').style.backgroundColor).toBe('rgb(249, 115, 22)');
+    expect(screen.getByTitle('Mar 11, 2024').style.backgroundColor).toBe('');
+  });
+
+  it('shows a past year in full', () => {
+    const { container } = render(<Heatmap logs={{}} color="#10b981" onClickDay={() => {}} range={{ type: 'year', year: 2023 }} />);
+    const titles = Array.from(container.querySelectorAll('[title]'), cell => cell.getAttribute('title'));
+    expect(titles.length).toBe(365);
+    expect(titles[0]).toBe('Jan 1, 2023');
+    expect(titles.at(-1)).toBe('Dec 31, 2023');
+  });
+
+  it('starts a since-start range at the habit\'s first day', () => {
+    const { container } = render(<Heatmap logs={{}} color="#10b981" onClickDay={() => {}} range={{ type: 'sinceStart' }} habitStart={new Date(2024, 4, 1)} />);
+    expect(container.querySelectorAll('[title]').length).toBe(15);
+  });
+
+  it('adds the new day at midnight while open', () => {
+    vi.useRealTimers();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 4, 15, 23, 59, 30));
+    render(<Heatmap logs={{}} color="#10b981" onClickDay={() => {}} />);
+    expect(screen.queryByTitle('May 16, 2024')).toBeNull();
+    act(() => {
+      vi.advanceTimersByTime(60_000);
+    });
+    expect(screen.getByTitle('May 16, 2024')).toBeTruthy();
+  });
+});
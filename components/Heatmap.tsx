@@ -1,8 +1,11 @@
 
 import React, { useMemo, useEffect, useRef, useState } from 'react';
-import { eachDayOfInterval, format, isSameDay, isSameMonth } from 'date-fns';
-import { DailyLog, WeekStart, Language } from '../types';
+import { format, isSameDay, isSameMonth } from 'date-fns';
+import { DailyLog, WeekStart, Language, HeatmapRange, RATING_COLORS } from '../types';
 import { t } from '../utils/i18n';
+import { getValueProgress, formatAmount } from '../utils/habits';
+import { DEFAULT_HEATMAP_RANGE, getHeatmapWeeks, resolveHeatmapRange } from '../utils/calendar';
+import { useToday } from '../hooks/useToday';
 
 interface HeatmapProps {
   logs: Record<string, DailyLog>;
@@ -12,6 +15,15 @@ interface HeatmapProps {
   weekStart?: WeekStart;
   splitMonths?: boolean;
   lang?: Language;
+  target?: number; // Measurable habits: shade cells by how much of the target was reached
+  unit?: string;
+  isDayOff?: (date: Date) => boolean; // Scheduled habits: de-emphasize days the habit was not due
+  range?: HeatmapRange; // Defaults to the last 52 weeks
+  habitStart?: Date; // Where a 'sinceStart' range begins
+  getProgress?: (date: Date, log?: DailyLog) => number; // Cell intensity (0-1) other than the log's own
+  getTitle?: (date: Date, log?: DailyLog) => string; // Tooltip other than the date and amount
+  onSelectRange?: (start: Date, end: Date) => void; // Dragging across days with the mouse selects them
+  colorByRating?: boolean; // Color rated days by their rating (RATING_COLORS) instead of by completion
 }
 
 export const Heatmap: React.FC<HeatmapProps> = ({ 
@@ -21,83 +33,56 @@ export const Heatmap: React.FC<HeatmapProps> = ({
   interactive = true, 
   weekStart = 'sunday',
   splitMonths = false,
-  lang = 'en'
+  lang = 'en',
+  target,
+  unit,
+  isDayOff,
+  range = DEFAULT_HEATMAP_RANGE,
+  habitStart,
+  getProgress,
+  getTitle,
+  onSelectRange,
+  colorByRating = false
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const initializedRef = useRef(false);
+  const scrolledRangeRef = useRef<HeatmapRange | null>(null);
+  // Days being drag-selected, as the day the drag started on and the day under the mouse
+  const [drag, setDrag] = useState<{ anchor: Date; current: Date } | null>(null);
+  const dragRef = useRef(drag);
+  dragRef.current = drag;
+  const onSelectRangeRef = useRef(onSelectRange);
+  onSelectRangeRef.current = onSelectRange;
   const [showLeftFade, setShowLeftFade] = useState(true);
   const [showRightFade, setShowRightFade] = useState(false);
   
-  // Stable "today" to prevent re-calculations during re-renders
-  const today = useMemo(() => new Date(), []);
-  
-  // Calculate date range: Last 365 days roughly
-  const endDate = today;
-  
-  // Calculate start date manually
-  const startDate = useMemo(() => {
-    const d = new Date(today);
-    d.setDate(today.getDate() - 364);
-    return d;
-  }, [today]);
-  
-  // 0 = Sunday, 1 = Monday
-  const weekStartsOn = weekStart === 'monday' ? 1 : 0;
-  
-  // Calculate start of week manually
-  const adjustedStartDate = useMemo(() => {
-    const currentDay = startDate.getDay();
-    const diff = (currentDay < weekStartsOn ? 7 : 0) + currentDay - weekStartsOn;
-    
-    const d = new Date(startDate);
-    d.setDate(startDate.getDate() - diff);
-    d.setHours(0, 0, 0, 0);
-    return d;
-  }, [startDate, weekStartsOn]);
-
-  // Generate all days
-  const days = useMemo(() => {
-    return eachDayOfInterval({
-      start: adjustedStartDate,
-      end: endDate,
-    });
-  }, [adjustedStartDate, endDate]);
+  // Changes at midnight, so the grid grows by a day while the app stays open
+  const today = useToday();
+  const habitStartTime = habitStart?.getTime();
 
-  // Group by weeks for the grid structure with month-splitting logic
+  // Columns of the selected range, split at month boundaries when asked
   const weeks = useMemo(() => {
-    const weeksArray: (Date | null)[][] = [];
-    let currentWeek: (Date | null)[] = new Array(7).fill(null);
-    let lastProcessedDay: Date | null = null;
-
-    days.forEach((day) => {
-      // Determine day of week index (0-6)
-      const dayOfWeek = day.getDay();
-      const weekIndex = (dayOfWeek < weekStartsOn ? 7 : 0) + dayOfWeek - weekStartsOn;
-
-      // Check if we need to split the week due to month change
-      // Only if splitMonths is enabled
-      const isMonthChange = splitMonths && lastProcessedDay && !isSameMonth(lastProcessedDay, day);
+    const { start, end } = resolveHeatmapRange(range, today, weekStart, habitStartTime === undefined ? undefined : new Date(habitStartTime));
+    return getHeatmapWeeks(start, end, weekStart, splitMonths);
+  }, [range, today, weekStart, splitMonths, habitStartTime]);
 
-      if (isMonthChange) {
-         // Month changed! Push current week (even if incomplete) and start a new one
-         weeksArray.push([...currentWeek]);
-         currentWeek = new Array(7).fill(null);
-      } else if (weekIndex === 0 && lastProcessedDay) {
-         // Normal week change (Sunday/Monday)
-         weeksArray.push([...currentWeek]);
-         currentWeek = new Array(7).fill(null);
+  // A drag ends wherever the mouse is released; a drag that never left its first day stays a click
+  useEffect(() => {
+    const onMouseUp = () => {
+      const current = dragRef.current;
+      if (!current) return;
+      setDrag(null);
+      if (!isSameDay(current.anchor, current.current)) {
+        const [start, end] = current.anchor < current.current ? [current.anchor, current.current] : [current.current, current.anchor];
+        onSelectRangeRef.current?.(start, end);
       }
+    };
+    window.addEventListener('mouseup', onMouseUp);
+    return () => window.removeEventListener('mouseup', onMouseUp);
+  }, []);
 
-      // Place the day in the current week
-      currentWeek[weekIndex] = day;
-      lastProcessedDay = day;
-    });
-
-    // Push final partial week if exists
-    if (currentWeek.some(d => d !== null)) weeksArray.push(currentWeek);
-    
-    return weeksArray;
-  }, [days, weekStartsOn, splitMonths]);
+  const dragKeys = drag && !isSameDay(drag.anchor, drag.current)
+    ? [format(drag.anchor, 'yyyy-MM-dd'), format(drag.current, 'yyyy-MM-dd')].sort()
+    : null;
 
   // Handle Wheel Scroll
   useEffect(() => {
@@ -127,16 +112,16 @@ export const Heatmap: React.FC<HeatmapProps> = ({
     setShowRightFade(scrollLeft < scrollWidth - clientWidth - 2);
   };
 
-  // Auto-scroll to end on mount only
+  // Auto-scroll to end on mount and when another range is picked
   useEffect(() => {
-    if (containerRef.current && weeks.length > 0 && !initializedRef.current) {
+    if (containerRef.current && weeks.length > 0 && scrolledRangeRef.current !== range) {
       // Force scroll to end
       containerRef.current.scrollLeft = containerRef.current.scrollWidth;
-      initializedRef.current = true;
+      scrolledRangeRef.current = range;
       // Trigger check immediately
       setTimeout(handleScroll, 50);
     }
-  }, [weeks]);
+  }, [weeks, range]);
 
   // Generate labels based on week start
   const dayLabels = weekStart === 'monday' 
@@ -227,6 +212,9 @@ export const Heatmap: React.FC<HeatmapProps> = ({
                         const dateKey = format(day, 'yyyy-MM-dd');
                         const log = logs[dateKey];
                         const isToday = isSameDay(day, today);
+                        const progress = colorByRating
+                            ? (log?.rating ? 1 : 0)
+                            : getProgress ? getProgress(day, log) : getValueProgress(log, target);
                         
                         // Strict Month Visualization Logic
                         const monthIndex = day.getMonth();
@@ -243,36 +231,54 @@ export const Heatmap: React.FC<HeatmapProps> = ({
                             ? 'bg-zinc-100 dark:bg-zinc-800/50' 
                             : 'bg-zinc-200 dark:bg-zinc-800';
 
-                        if (log?.completed) {
-                            customBgColor = color;
+                        if (progress > 0) {
+                            customBgColor = colorByRating && log?.rating ? RATING_COLORS[log.rating] : color;
                             // Apply month distinction to completed items too
                             // Even months (which have lighter background) get lighter (transparent) completed color
                             // Odd months (darker background) get solid completed color
                             if (isEvenMonth) {
                                 opacityStyle = 0.5;
                             }
+                            // Partial progress on measurable habits fades towards the empty cell
+                            if (progress < 1) {
+                                opacityStyle *= 0.2 + 0.6 * progress;
+                            }
                         } else {
                             // Empty State with Alternating Month Patterns
-                            // Background classes applied above
-                            opacityStyle = 1; 
+                            // Background classes applied above; days off the schedule are faded out
+                            opacityStyle = isDayOff?.(day) ? 0.35 : 1; 
                         }
                         
                         return (
                         <div
                             key={dateKey}
                             onClick={() => interactive && onClickDay(day, log)}
+                            onMouseDown={(e) => {
+                                if (!interactive || !onSelectRange || e.button !== 0) return;
+                                e.preventDefault(); // No text selection while dragging
+                                setDrag({ anchor: day, current: day });
+                            }}
+                            onMouseEnter={() => drag && setDrag({ ...drag, current: day })}
                             className={`
                             w-2.5 h-2.5 sm:w-3 sm:h-3 rounded-sm transition-all duration-200 flex-shrink-0
                             ${interactive ? 'cursor-pointer hover:scale-125 hover:z-10' : ''}
-                            ${isToday ? 'ring-1 ring-offset-1 ring-offset-zinc-50 dark:ring-offset-zinc-900 ring-zinc-400 dark:ring-zinc-500' : ''}
-                            ${!log?.completed ? bgClass : ''}
+                            ${dragKeys && dateKey >= dragKeys[0] && dateKey <= dragKeys[1]
+                                ? 'ring-2 ring-zinc-900 dark:ring-zinc-100'
+                                : isToday ? 'ring-1 ring-offset-1 ring-offset-zinc-50 dark:ring-offset-zinc-900 ring-zinc-400 dark:ring-zinc-500' : ''}
+                            ${progress < 1 ? bgClass : ''}
                             `}
                             style={{
                                 backgroundColor: customBgColor,
                                 opacity: opacityStyle,
                                 filter: filterStyle,
                             }}
-                            title={`${format(day, 'MMM d, yyyy')}${log?.completed ? ` - ${t(lang as Language, 'done')}` : ''}`}
+                            title={getTitle ? getTitle(day, log) : `${format(day, 'MMM d, yyyy')}${
+                                colorByRating
+                                    ? (log?.rating ? ` - ${t(lang as Language, 'rating')}: ${log.rating}/5` : '')
+                                    : target && log?.value !== undefined
+                                        ? ` - ${formatAmount(log.value)}/${formatAmount(target)}${unit ? ` ${unit}` : ''}`
+                                        : log?.completed ? ` - ${t(lang as Language, 'done')}` : ''
+                            }`}
                         />
                         );
                     })}
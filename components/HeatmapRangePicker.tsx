@@ -0,0 +1,111 @@
+import React from 'react';
+import { addWeeks } from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { HeatmapRange, Language } from '../types';
+import { t } from '../utils/i18n';
+import { toDateKey } from '../utils/date';
+import { DEFAULT_HEATMAP_RANGE } from '../utils/calendar';
+import { useToday } from '../hooks/useToday';
+
+interface HeatmapRangePickerProps {
+  value: HeatmapRange;
+  onChange: (range: HeatmapRange) => void;
+  lang: Language;
+  firstYear: number; // The habit's first year; nothing to show before it
+  allowCustom?: boolean; // Offer more ranges and custom dates, where there is room for them
+}
+
+const rangeKey = (range: HeatmapRange): string => {
+  switch (range.type) {
+    case 'lastWeeks': return `weeks:${range.weeks}`;
+    case 'year': return `year:${range.year}`;
+    case 'custom': return 'custom';
+    case 'sinceStart': return 'since';
+  }
+};
+
+// Year arrows plus a menu of ranges. The arrows step through calendar years; stepping past the
+// current year goes back to the default "last 52 weeks".
+export const HeatmapRangePicker: React.FC<HeatmapRangePickerProps> = ({ value, onChange, lang, firstYear, allowCustom = false }) => {
+  const today = useToday();
+  const currentYear = today.getFullYear();
+  const years: number[] = [];
+  for (let year = currentYear; year >= Math.min(firstYear, currentYear); year--) years.push(year);
+
+  const canGoBack = value.type !== 'year' || value.year > firstYear;
+  const canGoForward = value.type === 'year';
+
+  const goBack = () => {
+    if (!canGoBack) return;
+    onChange({ type: 'year', year: value.type === 'year' ? value.year - 1 : currentYear });
+  };
+
+  const goForward = () => {
+    if (value.type !== 'year') return;
+    onChange(value.year >= currentYear ? DEFAULT_HEATMAP_RANGE : { type: 'year', year: value.year + 1 });
+  };
+
+  const handleSelect = (key: string) => {
+    const [kind, arg] = key.split(':');
+    if (kind === 'weeks') onChange({ type: 'lastWeeks', weeks: Number(arg) });
+    else if (kind === 'year') onChange({ type: 'year', year: Number(arg) });
+    else if (kind === 'since') onChange({ type: 'sinceStart' });
+    // Start from the last three months
+    else if (kind === 'custom') onChange({ type: 'custom', start: toDateKey(addWeeks(today, -13)), end: toDateKey(today) });
+  };
+
+  const arrowClass = "p-1 rounded-md text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:pointer-events-none";
+  const dateInputClass = "px-2 py-1 rounded-md bg-zinc-100 dark:bg-zinc-800 border-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100 outline-none text-xs dark:text-white";
+
+  return (
+    <div className="flex flex-col items-end gap-1.5">
+      <div className="flex items-center gap-0.5">
+        <button onClick={goBack} disabled={!canGoBack} className={arrowClass} aria-label={t(lang, 'heatmapPrevYear')}>
+          <ChevronLeft size={14} />
+        </button>
+        <select
+          value={rangeKey(value)}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="bg-transparent text-[10px] font-medium text-zinc-500 dark:text-zinc-400 outline-none cursor-pointer text-center appearance-none px-1"
+        >
+          <option value={rangeKey(DEFAULT_HEATMAP_RANGE)}>{t(lang, 'heatmapLastWeeks', { count: 52 })}</option>
+          {allowCustom && <option value="weeks:12">{t(lang, 'heatmapLastWeeks', { count: 12 })}</option>}
+          <option value="since">{t(lang, 'heatmapSinceStart')}</option>
+          {years.map(year => (
+            <option key={year} value={`year:${year}`}>{year}</option>
+          ))}
+          {(allowCustom || value.type === 'custom') && <option value="custom">{t(lang, 'heatmapCustom')}</option>}
+        </select>
+        <button onClick={goForward} disabled={!canGoForward} className={arrowClass} aria-label={t(lang, 'heatmapNextYear')}>
+          <ChevronRight size={14} />
+        </button>
+      </div>
+
+      {allowCustom && value.type === 'custom' && (
+        <div className="flex items-center gap-2 text-xs text-zinc-500">
+          <label className="flex items-center gap-1">
+            {t(lang, 'heatmapFrom')}
+            <input
+              type="date"
+              value={value.start}
+              max={value.end}
+              onChange={(e) => e.target.value && onChange({ ...value, start: e.target.value })}
+              className={dateInputClass}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            {t(lang, 'heatmapTo')}
+            <input
+              type="date"
+              value={value.end}
+              min={value.start}
+              max={toDateKey(today)}
+              onChange={(e) => e.target.value && onChange({ ...value, end: e.target.value })}
+              className={dateInputClass}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, FileCheck } from 'lucide-react';
+import { AppData, DailyLog, Language } from '../types';
+import { t, TranslationKey } from '../utils/i18n';
+import { summarizeBackup } from '../utils/backup';
+import { ValidationIssue, ValidationResult } from '../utils/validation';
+import { planMerge, applyMerge, newestChoice, ConflictChoice, HabitMatchMode } from '../utils/importMerge';
+import { formatAmount } from '../utils/habits';
+import { Modal } from './Modal';
+
+interface ImportReviewProps {
+  result: ValidationResult | null; // Its data is already migrated to the current schema
+  local: AppData;
+  allowReplace?: boolean; // Partial sources like CSV can only be merged
+  lang: Language;
+  onConfirm: (data: AppData) => void;
+  onCancel: () => void;
+}
+
+type ImportMode = 'replace' | 'merge';
+
+const describeLog = (log: DailyLog) => {
+  const parts = [log.completed ? '✓' : '✗'];
+  if (log.value !== undefined) parts.push(formatAmount(log.value));
+  if (log.note) parts.push(log.note.length > 40 ? `${log.note.slice(0, 40)}…` : log.note);
+  return parts.join(' · ');
+};
+
+const ISSUE_KEYS: Record<ValidationIssue['code'], TranslationKey> = {
+  invalidJson: 'issueInvalidJson',
+  notObject: 'issueNotObject',
+  missing: 'issueMissing',
+  wrongType: 'issueWrongType',
+  badDate: 'issueBadDate',
+  badTimestamp: 'issueBadTimestamp',
+  dateMismatch: 'issueDateMismatch',
+  duplicateId: 'issueDuplicateId',
+  duplicateRow: 'issueDuplicateRow',
+  outOfRange: 'issueOutOfRange',
+  unknownValue: 'issueUnknownValue',
+};
+
+const EFFECT_KEYS: Record<ValidationIssue['effect'], TranslationKey> = {
+  file: 'effectFile',
+  habit: 'effectHabit',
+  log: 'effectLog',
+  field: 'effectField',
+  default: 'effectDefault',
+};
+
+// Shown before an import changes anything: what the file holds, everything wrong with it,
+// and either a full replace or a dry run of merging it into the current data
+export const ImportReview: React.FC<ImportReviewProps> = ({ result, local, allowReplace = true, lang, onConfirm, onCancel }) => {
+  const [mode, setMode] = useState<ImportMode>(allowReplace ? 'replace' : 'merge');
+  const [matchMode, setMatchMode] = useState<HabitMatchMode>('id');
+  const [resolveManually, setResolveManually] = useState(false);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useEffect(() => {
+    if (!result) return;
+    setMode(allowReplace ? 'replace' : 'merge');
+    setMatchMode('id');
+    setResolveManually(false);
+    setChoices({});
+  }, [result, allowReplace]);
+
+  const summary = result?.data ? summarizeBackup(result.data) : null;
+  const issues = result?.issues || [];
+  const plan = useMemo(
+    () => (mode === 'merge' && result?.data ? planMerge(local, result.data, matchMode) : null),
+    [mode, result, local, matchMode]
+  );
+  const changedHabits = plan ? plan.matched.filter(m => m.newLogs.length > 0 || m.conflicts.length > 0).length : 0;
+
+  const handleConfirm = () => {
+    if (!result?.data) return;
+    if (mode === 'replace' || !plan) {
+      onConfirm(result.data);
+    } else {
+      onConfirm(applyMerge(local, plan, resolveManually ? choices : {}));
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={!!result}
+      onClose={onCancel}
+      title={
+        <span className="flex items-center gap-2">
+          <FileCheck size={18} className="text-zinc-500" />
+          {t(lang, 'reviewImport')}
+        </span>
+      }
+    >
+      <div className="space-y-4">
+        {summary && (
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+              <p className="text-lg font-bold">{summary.habits}</p>
+              <p className="text-[10px] text-zinc-500">{t(lang, 'habits')}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+              <p className="text-lg font-bold">{summary.logs}</p>
+              <p className="text-[10px] text-zinc-500">{t(lang, 'logs')}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+              <p className="text-xs font-semibold leading-7">
+                {summary.firstDate ? `${summary.firstDate} – ${summary.lastDate}` : '—'}
+              </p>
+              <p className="text-[10px] text-zinc-500">{t(lang, 'dateRange')}</p>
+            </div>
+          </div>
+        )}
+
+        {issues.length === 0 ? (
+          <p className="text-xs text-emerald-500 flex items-center gap-1.5">
+            <CheckCircle2 size={12} /> {t(lang, 'noIssues')}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-rose-500 flex items-center gap-1.5">
+              <AlertTriangle size={12} /> {t(lang, 'issuesFound', { count: issues.length })}
+            </p>
+            <ul className="max-h-56 overflow-y-auto space-y-1 text-xs">
+              {issues.map((issue, i) => (
+                <li key={i} className="p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800">
+                  <code className="block font-mono text-[10px] text-zinc-500 break-all">{issue.path || '/'}</code>
+                  <span className="text-zinc-700 dark:text-zinc-300">
+                    {t(lang, ISSUE_KEYS[issue.code], { expected: issue.expected || '' })}
+                  </span>
+                  <span className="text-zinc-400"> · {t(lang, EFFECT_KEYS[issue.effect])}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {result?.data && allowReplace && (
+          <div className="flex bg-zinc-200 dark:bg-zinc-800 rounded-lg p-1">
+            {(['replace', 'merge'] as ImportMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`flex-1 px-3 py-1 text-xs font-medium rounded-md transition-all ${mode === m ? 'bg-white dark:bg-zinc-600 shadow-sm text-zinc-900 dark:text-white' : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-300'}`}
+              >
+                {m === 'replace' ? t(lang, 'importReplace') : t(lang, 'importMerge')}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {result?.data && mode === 'replace' && <p className="text-[10px] text-zinc-400">{t(lang, 'importReplaceWarning')}</p>}
+
+        {plan && (
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={matchMode === 'idOrTitle'}
+                onChange={(e) => setMatchMode(e.target.checked ? 'idOrTitle' : 'id')}
+                className="accent-zinc-900 dark:accent-zinc-100"
+              />
+              {t(lang, 'matchByTitle')}
+            </label>
+
+            <ul className="text-xs space-y-1 p-3 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300">
+              <li>
+                {t(lang, 'mergeHabitsAdded', { count: plan.added.length })}
+                {plan.added.length > 0 && <span className="text-zinc-400"> ({plan.added.map(h => h.title).join(', ')})</span>}
+              </li>
+              <li>{t(lang, 'mergeHabitsUpdated', { count: changedHabits })}</li>
+              <li>{t(lang, 'mergeHabitsUnchanged', { count: plan.matched.length - changedHabits })}</li>
+              <li>{t(lang, 'mergeLogsAdded', { count: plan.logsAdded })}</li>
+              <li>{t(lang, 'mergeLogsUnchanged', { count: plan.logsUnchanged })}</li>
+              <li className={plan.conflicts.length > 0 ? 'text-amber-500 font-medium' : ''}>
+                {t(lang, 'mergeConflicts', { count: plan.conflicts.length })}
+              </li>
+            </ul>
+
+            {plan.conflicts.length > 0 && (
+              <>
+                <div className="flex bg-zinc-200 dark:bg-zinc-800 rounded-lg p-1">
+                  {[false, true].map(manual => (
+                    <button
+                      key={String(manual)}
+                      onClick={() => setResolveManually(manual)}
+                      className={`flex-1 px-3 py-1 text-xs font-medium rounded-md transition-all ${resolveManually === manual ? 'bg-white dark:bg-zinc-600 shadow-sm text-zinc-900 dark:text-white' : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-300'}`}
+                    >
+                      {manual ? t(lang, 'resolveManually') : t(lang, 'resolveNewest')}
+                    </button>
+                  ))}
+                </div>
+
+                {resolveManually && (
+                  <ul className="max-h-56 overflow-y-auto space-y-2 text-xs">
+                    {plan.conflicts.map(conflict => {
+                      const choice = choices[conflict.key] || newestChoice(conflict);
+                      return (
+                        <li key={conflict.key} className="p-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 space-y-1.5">
+                          <p className="font-medium text-zinc-700 dark:text-zinc-300">
+                            {conflict.habitTitle} <span className="text-zinc-400 font-normal">{conflict.date}</span>
+                          </p>
+                          <div className="grid grid-cols-2 gap-2">
+                            {(['local', 'incoming'] as ConflictChoice[]).map(side => (
+                              <button
+                                key={side}
+                                onClick={() => setChoices(prev => ({ ...prev, [conflict.key]: side }))}
+                                className={`p-2 rounded-md text-left border transition-colors ${choice === side ? 'border-zinc-900 dark:border-zinc-100 bg-white dark:bg-zinc-900' : 'border-transparent text-zinc-500 hover:bg-white/50 dark:hover:bg-zinc-900/50'}`}
+                              >
+                                <span className="block text-[10px] uppercase tracking-wide text-zinc-400">
+                                  {side === 'local' ? t(lang, 'keepMine') : t(lang, 'useImported')}
+                                </span>
+                                <span className="break-words">{describeLog(conflict[side])}</span>
+                              </button>
+                            ))}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-2">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-lg font-semibold border-2 border-zinc-300 dark:border-zinc-600 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+          >
+            {t(lang, 'cancel')}
+          </button>
+          {result?.data && (
+            <button
+              onClick={handleConfirm}
+              className="flex-1 py-3 rounded-lg font-semibold bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 hover:opacity-90 transition-opacity"
+            >
+              {mode === 'merge' ? t(lang, 'importMerge') : issues.length > 0 ? t(lang, 'importValidParts') : t(lang, 'importBtn')}
+            </button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
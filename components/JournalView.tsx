@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { BookOpen, Check, Search, Star, X } from 'lucide-react';
+import { AppData, Language, RATING_COLORS } from '../types';
+import { t } from '../utils/i18n';
+import { parseDateKey, toDateKey } from '../utils/date';
+import { getJournalEntries, getMatchRanges, getSearchTerms, JournalEntry } from '../utils/journal';
+
+interface JournalViewProps {
+  data: AppData;
+  lang: Language;
+  onOpenEntry: (habitId: string, date: Date) => void;
+}
+
+// Rendering thousands of notes at once makes typing in the search box lag
+const PAGE_SIZE = 100;
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => {
+  const ranges = getMatchRanges(text, terms);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let index = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > index) parts.push(text.slice(index, start));
+    parts.push(
+      <mark key={start} className="bg-amber-200/70 dark:bg-amber-500/30 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    index = end;
+  });
+  parts.push(text.slice(index));
+  return <>{parts}</>;
+};
+
+export const JournalView: React.FC<JournalViewProps> = ({ data, lang, onOpenEntry }) => {
+  const [query, setQuery] = useState('');
+  const [habitIds, setHabitIds] = useState<string[]>([]);
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  // Only habits that have notes are worth filtering by
+  const habitsWithNotes = useMemo(
+    () => data.habits.filter(h => Object.values(h.logs).some(log => log.note)),
+    [data.habits]
+  );
+
+  const terms = useMemo(() => getSearchTerms(query), [query]);
+  const entries = useMemo(
+    () => getJournalEntries(data.habits, { query, habitIds, start: start || undefined, end: end || undefined }),
+    [data.habits, query, habitIds, start, end]
+  );
+  const isFiltered = terms.length > 0 || habitIds.length > 0 || !!start || !!end;
+
+  // Group the shown entries by day
+  const days = useMemo(() => {
+    const groups: { date: string; entries: JournalEntry[] }[] = [];
+    entries.slice(0, limit).forEach(entry => {
+      const last = groups[groups.length - 1];
+      if (last?.date === entry.log.date) last.entries.push(entry);
+      else groups.push({ date: entry.log.date, entries: [entry] });
+    });
+    return groups;
+  }, [entries, limit]);
+
+  const toggleHabit = (id: string) => {
+    setHabitIds(prev => prev.includes(id) ? prev.filter(h => h !== id) : [...prev, id]);
+    setLimit(PAGE_SIZE);
+  };
+
+  const clearFilters = () => {
+    setQuery('');
+    setHabitIds([]);
+    setStart('');
+    setEnd('');
+    setLimit(PAGE_SIZE);
+  };
+
+  const inputClass = "px-3 py-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 border-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100 outline-none transition-all dark:text-white text-sm";
+  const todayKey = toDateKey(new Date());
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-4 pb-20 animate-in slide-in-from-bottom-4 duration-500">
+      <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-2xl p-6 sm:p-8 space-y-4">
+        <div>
+          <h2 className="text-2xl font-bold mb-1">{t(lang, 'journal')}</h2>
+          <p className="text-zinc-500 text-sm">{t(lang, 'journalDesc')}</p>
+        </div>
+
+        <div className="relative">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400 pointer-events-none" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setLimit(PAGE_SIZE); }}
+            placeholder={t(lang, 'journalSearch')}
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+
+        {habitsWithNotes.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {habitsWithNotes.map(habit => {
+              const selected = habitIds.includes(habit.id);
+              return (
+                <button
+                  key={habit.id}
+                  onClick={() => toggleHabit(habit.id)}
+                  aria-pressed={selected}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-all ${selected ? 'bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500 hover:bg-zinc-200 dark:hover:bg-zinc-700'}`}
+                >
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: habit.color }} />
+                  {habit.title}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 text-xs text-zinc-500">
+          <label className="flex items-center gap-2">
+            {t(lang, 'journalFrom')}
+            <input type="date" value={start} max={end || todayKey} onChange={(e) => { setStart(e.target.value); setLimit(PAGE_SIZE); }} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-2">
+            {t(lang, 'journalTo')}
+            <input type="date" value={end} min={start} max={todayKey} onChange={(e) => { setEnd(e.target.value); setLimit(PAGE_SIZE); }} className={inputClass} />
+          </label>
+          <span className="flex-1" />
+          <span>{t(lang, 'journalCount', { count: entries.length })}</span>
+          {isFiltered && (
+            <button onClick={clearFilters} className="flex items-center gap-1 font-medium hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors">
+              <X size={12} /> {t(lang, 'journalClearFilters')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-zinc-400">
+          <BookOpen size={24} className="mb-2 opacity-50" />
+          <p className="text-sm font-medium text-center">{t(lang, isFiltered ? 'journalNoMatches' : 'journalEmpty')}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {days.map(day => (
+            <div key={day.date}>
+              <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2 px-1">
+                {format(parseDateKey(day.date), lang === 'zh' ? 'yyyy/MM/dd' : 'EEE, MMM d, yyyy')}
+              </h3>
+              <div className="space-y-2">
+                {day.entries.map(({ habit, log }) => (
+                  <button
+                    key={habit.id}
+                    onClick={() => onOpenEntry(habit.id, parseDateKey(log.date))}
+                    className="w-full text-left p-4 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl hover:border-zinc-300 dark:hover:border-zinc-700 transition-colors"
+                  >
+                    <div className="flex items-center gap-2 mb-1.5 text-xs">
+                      <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: habit.color }} />
+                      <span className="font-semibold text-zinc-700 dark:text-zinc-300 truncate">{habit.title}</span>
+                      {log.completed && <Check size={12} strokeWidth={3} className="text-zinc-400 flex-shrink-0" />}
+                      {log.rating && (
+                        <span className="flex items-center gap-0.5 font-medium flex-shrink-0" style={{ color: RATING_COLORS[log.rating] }}>
+                          <Star size={11} fill="currentColor" /> {log.rating}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-zinc-900 dark:text-zinc-100 whitespace-pre-wrap break-words">
+                      <Highlighted text={log.note} terms={terms} />
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          {entries.length > limit && (
+            <button
+              onClick={() => setLimit(limit + PAGE_SIZE)}
+              className="w-full py-3 rounded-lg text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+            >
+              {t(lang, 'journalShowMore')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { AlertTriangle, RotateCw } from 'lucide-react';
+import { Language } from '../types';
+import { t } from '../utils/i18n';
+import { SchemaVersionError } from '../utils/migrations';
+
+interface LoadErrorScreenProps {
+  error: unknown;
+  lang: Language;
+}
+
+// Shown instead of the app when the stored data can't be read. The app isn't rendered at all, so
+// nothing gets saved over the data that is still there.
+export const LoadErrorScreen: React.FC<LoadErrorScreenProps> = ({ error, lang }) => {
+  const message = error instanceof SchemaVersionError
+    ? t(lang, 'newerSchemaError')
+    : error instanceof Error ? error.message : String(error);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-zinc-50 dark:bg-zinc-950 text-zinc-900 dark:text-zinc-100">
+      <div className="max-w-md w-full bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-2xl p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <AlertTriangle size={20} className="text-rose-500 flex-shrink-0" />
+          <h1 className="text-lg font-bold">{t(lang, 'loadErrorTitle')}</h1>
+        </div>
+        <p className="text-sm text-zinc-600 dark:text-zinc-300">{message}</p>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">{t(lang, 'loadErrorHint')}</p>
+        <button
+          onClick={() => window.location.reload()}
+          className="w-full flex items-center justify-center gap-2 py-3 rounded-lg font-semibold bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 hover:opacity-90 transition-opacity"
+        >
+          <RotateCw size={16} /> {t(lang, 'loadErrorReload')}
+        </button>
+      </div>
+    </div>
+  );
+};
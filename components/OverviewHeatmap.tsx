@@ -0,0 +1,86 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Habit, HeatmapRange, Language, WeekStart } from '../types';
+import { t } from '../utils/i18n';
+import { toDateKey } from '../utils/date';
+import { getHabitStartDate } from '../utils/habits';
+import { DaySummary, getDaySummary } from '../utils/analytics';
+import { DEFAULT_HEATMAP_RANGE } from '../utils/calendar';
+import { Heatmap } from './Heatmap';
+import { HeatmapRangePicker } from './HeatmapRangePicker';
+
+interface OverviewHeatmapProps {
+  habits: Habit[];
+  weekStart: WeekStart;
+  splitMonths?: boolean;
+  lang: Language;
+  onClickDay: (date: Date) => void;
+  onSelectRange?: (start: Date, end: Date) => void;
+}
+
+const OVERVIEW_COLOR = '#10b981';
+
+// The "contributions" view of the whole routine: each day is shaded by the share of due habits
+// that were done, with the done and missed habits in the tooltip
+export const OverviewHeatmap: React.FC<OverviewHeatmapProps> = ({ habits, weekStart, splitMonths = false, lang, onClickDay, onSelectRange }) => {
+  const [range, setRange] = useState<HeatmapRange>(DEFAULT_HEATMAP_RANGE);
+
+  const firstStart = useMemo(() => {
+    const active = habits.filter(h => !h.archived);
+    return active.length > 0
+      ? new Date(Math.min(...active.map(h => getHabitStartDate(h).getTime())))
+      : new Date();
+  }, [habits]);
+
+  // Summaries are worked out as cells ask for them, once per day until the habits change
+  const summaryOf = useMemo(() => {
+    const cache = new Map<string, DaySummary>();
+    return (date: Date) => {
+      const key = toDateKey(date);
+      let summary = cache.get(key);
+      if (!summary) {
+        summary = getDaySummary(habits, date, weekStart);
+        cache.set(key, summary);
+      }
+      return summary;
+    };
+  }, [habits, weekStart]);
+
+  const getTitle = (date: Date) => {
+    const { done, missed, rate } = summaryOf(date);
+    const lines = [format(date, 'MMM d, yyyy')];
+    if (rate === null) {
+      lines.push(t(lang, 'overviewNothingDue'));
+    } else {
+      lines[0] += ` · ${done.length}/${done.length + missed.length}`;
+      if (done.length > 0) lines.push(t(lang, 'overviewDone', { habits: done.map(h => h.title).join(', ') }));
+      if (missed.length > 0) lines.push(t(lang, 'overviewMissed', { habits: missed.map(h => h.title).join(', ') }));
+    }
+    return lines.join('\n');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 pl-5">
+        <span className="text-[10px] font-bold text-zinc-400 dark:text-zinc-500 uppercase tracking-wider">
+          {t(lang, 'overviewTitle')}
+        </span>
+        <HeatmapRangePicker value={range} onChange={setRange} lang={lang} firstYear={firstStart.getFullYear()} />
+      </div>
+      <Heatmap
+        logs={{}}
+        color={OVERVIEW_COLOR}
+        onClickDay={(date) => onClickDay(date)}
+        onSelectRange={onSelectRange}
+        weekStart={weekStart}
+        splitMonths={splitMonths}
+        lang={lang}
+        range={range}
+        habitStart={firstStart}
+        getProgress={(date) => summaryOf(date).rate ?? 0}
+        getTitle={getTitle}
+        isDayOff={(date) => summaryOf(date).rate === null}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { Language } from '../types';
+import { t } from '../utils/i18n';
+import { Modal } from './Modal';
+
+interface PassphrasePromptProps {
+  isOpen: boolean;
+  lang: Language;
+  description: string;
+  confirm?: boolean; // Ask twice when setting a new passphrase
+  error?: string;
+  isBusy?: boolean;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+}
+
+export const PassphrasePrompt: React.FC<PassphrasePromptProps> = ({
+  isOpen,
+  lang,
+  description,
+  confirm = false,
+  error,
+  isBusy = false,
+  onSubmit,
+  onCancel
+}) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [repeat, setRepeat] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setPassphrase('');
+      setRepeat('');
+    }
+  }, [isOpen]);
+
+  const mismatch = confirm && repeat.length > 0 && repeat !== passphrase;
+  const canSubmit = passphrase.length > 0 && (!confirm || repeat === passphrase) && !isBusy;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) onSubmit(passphrase);
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onCancel}
+      title={
+        <span className="flex items-center gap-2">
+          <KeyRound size={18} className="text-zinc-500" />
+          {t(lang, 'passphrase')}
+        </span>
+      }
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-zinc-500">{description}</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder={t(lang, 'passphrase')}
+          autoComplete={confirm ? 'new-password' : 'current-password'}
+          autoFocus
+          className="w-full px-4 py-3 rounded-lg bg-zinc-100 dark:bg-zinc-800 border-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100 outline-none transition-all dark:text-white"
+        />
+        {confirm && (
+          <input
+            type="password"
+            value={repeat}
+            onChange={(e) => setRepeat(e.target.value)}
+            placeholder={t(lang, 'repeatPassphrase')}
+            autoComplete="new-password"
+            className="w-full px-4 py-3 rounded-lg bg-zinc-100 dark:bg-zinc-800 border-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100 outline-none transition-all dark:text-white"
+          />
+        )}
+        {(mismatch || error) && (
+          <p className="text-xs text-rose-500">{mismatch ? t(lang, 'passphraseMismatch') : error}</p>
+        )}
+        {confirm && <p className="text-[10px] text-zinc-400">{t(lang, 'passphraseWarning')}</p>}
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className={`w-full py-3 rounded-lg font-semibold transition-opacity ${
+            canSubmit
+              ? 'bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 hover:opacity-90'
+              : 'bg-zinc-300 dark:bg-zinc-700 text-zinc-500 dark:text-zinc-500 cursor-not-allowed'
+          }`}
+        >
+          {confirm ? t(lang, 'setPassphrase') : t(lang, 'unlock')}
+        </button>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Download, RefreshCw, Share, X } from 'lucide-react';
+import { Language } from '../types';
+import { t } from '../utils/i18n';
+import { usePwa } from '../hooks/usePwa';
+
+interface PwaPromptsProps {
+  lang: Language;
+}
+
+const INSTALL_DISMISSED_KEY = 'habitpulse_install_dismissed';
+
+// Floating banners for a waiting update and for installing the app to the home screen
+export const PwaPrompts: React.FC<PwaPromptsProps> = ({ lang }) => {
+  const { canInstall, showIosInstallHint, install, updateReady, applyUpdate } = usePwa();
+  const [installDismissed, setInstallDismissed] = useState(() => localStorage.getItem(INSTALL_DISMISSED_KEY) === '1');
+
+  const dismissInstall = () => {
+    localStorage.setItem(INSTALL_DISMISSED_KEY, '1');
+    setInstallDismissed(true);
+  };
+
+  const showInstall = !installDismissed && (canInstall || showIosInstallHint);
+  if (!updateReady && !showInstall) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 right-4 md:left-auto md:w-96 z-50 space-y-2">
+      {updateReady && (
+        <div className="flex items-center gap-3 p-4 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-xl shadow-lg">
+          <RefreshCw size={18} className="flex-shrink-0" />
+          <p className="flex-1 text-sm font-medium">{t(lang, 'updateAvailable')}</p>
+          <button
+            onClick={applyUpdate}
+            className="px-3 py-1.5 rounded-lg bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 text-sm font-semibold hover:opacity-90 transition-opacity"
+          >
+            {t(lang, 'updateReload')}
+          </button>
+        </div>
+      )}
+
+      {showInstall && (
+        <div className="flex items-start gap-3 p-4 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl shadow-lg">
+          <img src="/icons/icon-192.png" alt="" className="w-10 h-10 rounded-xl flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">{t(lang, 'installApp')}</p>
+            {canInstall ? (
+              <p className="text-xs text-zinc-500 mt-0.5">{t(lang, 'installAppDesc')}</p>
+            ) : (
+              <p className="text-xs text-zinc-500 mt-0.5 flex items-center gap-1 flex-wrap">
+                {t(lang, 'installIosHint')} <Share size={12} className="inline" />
+              </p>
+            )}
+            {canInstall && (
+              <button
+                onClick={install}
+                className="mt-2 flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 text-xs font-semibold hover:opacity-90 transition-opacity"
+              >
+                <Download size={14} />
+                {t(lang, 'install')}
+              </button>
+            )}
+          </div>
+          <button
+            onClick={dismissInstall}
+            className="p-1 text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { Language, Rating, RATING_COLORS } from '../types';
+import { t } from '../utils/i18n';
+
+interface RatingPickerProps {
+  value?: Rating;
+  onChange: (rating?: Rating) => void;
+  lang: Language;
+}
+
+const RATINGS: Rating[] = [1, 2, 3, 4, 5];
+
+// Five stars in the color the heatmap uses for the rating; tapping the current rating clears it
+export const RatingPicker: React.FC<RatingPickerProps> = ({ value, onChange, lang }) => {
+  return (
+    <div className="flex items-center gap-1">
+      {RATINGS.map(rating => {
+        const filled = !!value && rating <= value;
+        return (
+          <button
+            key={rating}
+            type="button"
+            onClick={() => onChange(rating === value ? undefined : rating)}
+            aria-label={t(lang, 'ratingStars', { rating })}
+            aria-pressed={rating === value}
+            title={rating === value ? t(lang, 'ratingClear') : t(lang, 'ratingStars', { rating })}
+            className={`p-1 rounded-md transition-transform hover:scale-110 active:scale-90 ${filled ? '' : 'text-zinc-300 dark:text-zinc-600'}`}
+            style={{ color: filled ? RATING_COLORS[value] : undefined }}
+          >
+            <Star size={22} fill={filled ? 'currentColor' : 'none'} />
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Habit, Language, Rating, RATING_COLORS, WeekStart } from '../types';
+import { t } from '../utils/i18n';
+import { getWeeklyRatings } from '../utils/analytics';
+import { useToday } from '../hooks/useToday';
+
+interface RatingTrendProps {
+  habit: Habit;
+  weekStart: WeekStart;
+  lang: Language;
+  weeks?: number;
+}
+
+const STEP = 24; // Horizontal distance between weeks, in viewBox units
+const HEIGHT = 64;
+const PAD = 6;
+
+// Average rating per week as a line from 1 (bottom) to 5 (top). Weeks without ratings are
+// skipped, so the line joins the weeks on either side of a gap.
+export const RatingTrend: React.FC<RatingTrendProps> = ({ habit, weekStart, lang, weeks = 12 }) => {
+  const today = useToday();
+  const ratings = useMemo(() => getWeeklyRatings(habit, weeks, weekStart, today), [habit, weeks, weekStart, today]);
+
+  const width = (weeks - 1) * STEP + PAD * 2;
+  const x = (index: number) => PAD + index * STEP;
+  const y = (rating: number) => PAD + ((5 - rating) / 4) * (HEIGHT - PAD * 2);
+  const points = ratings.flatMap((week, i) => week.average === null ? [] : [{ ...week, average: week.average, i }]);
+
+  if (points.length === 0) {
+    return <p className="text-xs text-zinc-400 dark:text-zinc-500 py-4 text-center">{t(lang, 'ratingTrendEmpty', { weeks })}</p>;
+  }
+
+  const dateFormat = lang === 'zh' ? 'M/d' : 'MMM d';
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <div className="flex flex-col justify-between text-[9px] text-zinc-400 font-medium py-0.5">
+          <span>5</span>
+          <span>3</span>
+          <span>1</span>
+        </div>
+        <svg viewBox={`0 0 ${width} ${HEIGHT}`} className="flex-1 h-16 overflow-visible" preserveAspectRatio="none">
+          {[1, 3, 5].map(rating => (
+            <line
+              key={rating}
+              x1={0}
+              x2={width}
+              y1={y(rating)}
+              y2={y(rating)}
+              className="stroke-zinc-200 dark:stroke-zinc-800"
+              strokeDasharray="2 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          <polyline
+            points={points.map(p => `${x(p.i)},${y(p.average)}`).join(' ')}
+            fill="none"
+            stroke={habit.color}
+            strokeWidth={2}
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+          {/* Dots are zero-length lines with round caps, so they stay round when the chart stretches */}
+          {points.map(p => (
+            <line
+              key={p.i}
+              x1={x(p.i)}
+              x2={x(p.i)}
+              y1={y(p.average)}
+              y2={y(p.average)}
+              stroke={RATING_COLORS[Math.round(p.average) as Rating]}
+              strokeWidth={8}
+              strokeLinecap="round"
+              vectorEffect="non-scaling-stroke"
+            >
+              <title>
+                {t(lang, 'ratingWeek', { date: format(p.start, dateFormat), average: p.average.toFixed(1), count: p.count })}
+              </title>
+            </line>
+          ))}
+        </svg>
+      </div>
+      <div className="flex justify-between text-[9px] text-zinc-400 font-medium mt-1 pl-4">
+        <span>{format(ratings[0].start, dateFormat)}</span>
+        <span>{format(ratings[ratings.length - 1].start, dateFormat)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, Plus, X } from 'lucide-react';
+import { Language } from '../types';
+import { t } from '../utils/i18n';
+import { isValidTime } from '../utils/date';
+import { requestNotificationPermission } from '../hooks/useReminders';
+
+interface ReminderEditorProps {
+  value: string[];
+  onChange: (reminders: string[]) => void;
+  lang: Language;
+}
+
+export const ReminderEditor: React.FC<ReminderEditorProps> = ({ value, onChange, lang }) => {
+  const [newTime, setNewTime] = useState('08:00');
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    'Notification' in window ? Notification.permission : 'unsupported'
+  );
+
+  const addReminder = async () => {
+    if (!isValidTime(newTime) || value.includes(newTime)) return;
+    onChange([...value, newTime].sort());
+    // Adding a reminder is the user gesture browsers require for the permission prompt
+    setPermission(await requestNotificationPermission());
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map(time => (
+            <span key={time} className="flex items-center gap-1.5 pl-3 pr-1.5 py-1 rounded-lg bg-zinc-100 dark:bg-zinc-800 text-sm font-medium text-zinc-700 dark:text-zinc-200 tabular-nums">
+              <Bell size={12} className="text-zinc-400" />
+              {time}
+              <button
+                onClick={() => onChange(value.filter(r => r !== time))}
+                className="p-0.5 rounded text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+              >
+                <X size={14} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="time"
+          value={newTime}
+          onChange={(e) => setNewTime(e.target.value)}
+          className="px-3 py-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 border-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100 outline-none transition-all dark:text-white"
+        />
+        <button
+          onClick={addReminder}
+          disabled={!isValidTime(newTime) || value.includes(newTime)}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg border-2 border-zinc-300 dark:border-zinc-600 text-sm font-medium text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Plus size={14} />
+          {t(lang, 'addReminder')}
+        </button>
+      </div>
+
+      {value.length > 0 && (permission === 'denied' || permission === 'unsupported') ? (
+        <p className="text-[10px] text-amber-500 flex items-center gap-1">
+          <BellOff size={12} />
+          {t(lang, permission === 'denied' ? 'remindersBlocked' : 'remindersUnsupported')}
+        </p>
+      ) : (
+        <p className="text-[10px] text-zinc-400">{t(lang, 'remindersDesc')}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { HabitSchedule, Language, WeekStart } from '../types';
+import { t } from '../utils/i18n';
+
+interface ScheduleEditorProps {
+  value: HabitSchedule;
+  onChange: (schedule: HabitSchedule) => void;
+  lang: Language;
+  weekStart: WeekStart;
+}
+
+const MODES: { type: HabitSchedule['type']; labelKey: 'scheduleDaily' | 'scheduleWeekdays' | 'scheduleTimesPerWeek' | 'scheduleTimesPerMonth' | 'scheduleInterval' }[] = [
+  { type: 'daily', labelKey: 'scheduleDaily' },
+  { type: 'weekdays', labelKey: 'scheduleWeekdays' },
+  { type: 'timesPerWeek', labelKey: 'scheduleTimesPerWeek' },
+  { type: 'timesPerMonth', labelKey: 'scheduleTimesPerMonth' },
+  { type: 'interval', labelKey: 'scheduleInterval' },
+];
+
+// Sensible starting values when switching modes
+const DEFAULTS: Record<HabitSchedule['type'], HabitSchedule> = {
+  daily: { type: 'daily' },
+  weekdays: { type: 'weekdays', days: [1, 3, 5] },
+  timesPerWeek: { type: 'timesPerWeek', times: 3 },
+  timesPerMonth: { type: 'timesPerMonth', times: 10 },
+  interval: { type: 'interval', every: 2 },
+};
+
+const clampInt = (raw: string, min: number, max: number) => {
+  const n = parseInt(raw, 10);
+  if (isNaN(n)) return min;
+  return Math.max(min, Math.min(max, n));
+};
+
+export const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ value, onChange, lang, weekStart }) => {
+  const weekdayLabels = lang === 'zh'
+    ? ['日', '一', '二', '三', '四', '五', '六']
+    : ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+  const weekdayOrder = weekStart === 'monday' ? [1, 2, 3, 4, 5, 6, 0] : [0, 1, 2, 3, 4, 5, 6];
+
+  const toggleWeekday = (day: number) => {
+    if (value.type !== 'weekdays') return;
+    const days = value.days.includes(day)
+      ? value.days.filter(d => d !== day)
+      : [...value.days, day];
+    // Keep at least one day selected, otherwise the habit would never be due
+    if (days.length === 0) return;
+    onChange({ type: 'weekdays', days });
+  };
+
+  const numberInputClass = "w-20 px-3 py-2 rounded-lg bg-zinc-100 dark:bg-zinc-800 border-none focus:ring-2 focus:ring-zinc-900 dark:focus:ring-zinc-100 outline-none transition-all dark:text-white text-center";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap bg-zinc-200 dark:bg-zinc-800 rounded-lg p-1 gap-0.5">
+        {MODES.map(mode => (
+          <button
+            key={mode.type}
+            onClick={() => value.type !== mode.type && onChange(DEFAULTS[mode.type])}
+            className={`flex-1 px-2 py-1.5 text-xs font-medium rounded-md transition-all whitespace-nowrap ${value.type === mode.type ? 'bg-white dark:bg-zinc-600 shadow-sm text-zinc-900 dark:text-white' : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-300'}`}
+          >
+            {t(lang, mode.labelKey)}
+          </button>
+        ))}
+      </div>
+
+      {value.type === 'weekdays' && (
+        <div className="flex justify-between gap-1">
+          {weekdayOrder.map(day => {
+            const active = value.days.includes(day);
+            return (
+              <button
+                key={day}
+                onClick={() => toggleWeekday(day)}
+                className={`w-9 h-9 rounded-full text-xs font-semibold transition-all ${active ? 'bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500 hover:bg-zinc-200 dark:hover:bg-zinc-700'}`}
+              >
+                {weekdayLabels[day]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value.type === 'timesPerWeek' && (
+        <label className="flex items-center gap-3 text-sm text-zinc-600 dark:text-zinc-400">
+          <input
+            type="number"
+            min="1"
+            max="7"
+            value={value.times}
+            onChange={(e) => onChange({ type: 'timesPerWeek', times: clampInt(e.target.value, 1, 7) })}
+            className={numberInputClass}
+          />
+          {t(lang, 'timesPerWeekSuffix')}
+        </label>
+      )}
+
+      {value.type === 'timesPerMonth' && (
+        <label className="flex items-center gap-3 text-sm text-zinc-600 dark:text-zinc-400">
+          <input
+            type="number"
+            min="1"
+            max="31"
+            value={value.times}
+            onChange={(e) => onChange({ type: 'timesPerMonth', times: clampInt(e.target.value, 1, 31) })}
+            className={numberInputClass}
+          />
+          {t(lang, 'timesPerMonthSuffix')}
+        </label>
+      )}
+
+      {value.type === 'interval' && (
+        <label className="flex items-center gap-3 text-sm text-zinc-600 dark:text-zinc-400">
+          {t(lang, 'everyPrefix')}
+          <input
+            type="number"
+            min="2"
+            max="365"
+            value={value.every}
+            onChange={(e) => onChange({ type: 'interval', every: clampInt(e.target.value, 2, 365) })}
+            className={numberInputClass}
+          />
+          {t(lang, 'daysUnit')}
+        </label>
+      )}
+    </div>
+  );
+};
@@ -1,24 +1,48 @@
 
 import React, { useRef, useState } from 'react';
-import { Download, Upload, Trash2, AlertTriangle, CheckCircle2, Globe, Calendar, Moon, Sun, Monitor, GalleryHorizontal, ChevronDown, ChevronRight, Cloud, RefreshCw, Server, Shield, Wifi } from 'lucide-react';
+import { Download, Upload, Trash2, AlertTriangle, CheckCircle2, Globe, Calendar, Moon, Sun, Monitor, GalleryHorizontal, ChevronDown, ChevronRight, Cloud, RefreshCw, Server, Shield, Wifi, Snowflake, History, Lock, Sheet, CalendarDays } from 'lucide-react';
 import { AppData, Language, WeekStart } from '../types';
 import { t } from '../utils/i18n';
 import { LongPressButton } from '../App';
-import { createWebDavClient, testWebDavConnection, performBackup } from '../utils/webdav';
+import { createWebDavClient, testWebDavConnection } from '../utils/webdav';
+import { BackupBrowser } from './BackupBrowser';
+import { PassphrasePrompt } from './PassphrasePrompt';
+import { migrateAppData, getSchemaVersion, CURRENT_SCHEMA_VERSION, SchemaVersionError } from '../utils/migrations';
+import { validateAppData, ValidationResult } from '../utils/validation';
+import { ImportReview } from './ImportReview';
+import { CsvImportDialog, CsvFile } from './CsvImportDialog';
+import { parseCsv, habitsToCsv } from '../utils/csv';
+import { downloadFile } from '../utils/download';
+import { habitsToIcs } from '../utils/ical';
+import { isZip, readZipText } from '../utils/zip';
+import { importLoop, isLoopCheckmarks, findLoopExport } from '../utils/importers';
+import { isEncryptedPayload, decryptText, getSessionPassphrase, setSessionPassphrase, PassphraseError } from '../utils/crypto';
 
 interface SettingsViewProps {
   data: AppData;
   onImport: (data: AppData) => void;
   onReset: () => void;
   onUpdateSetting: (key: keyof AppData['settings'], value: any) => void;
+  onSyncNow: () => Promise<void>;
+  onRestoreBackup: (data: AppData) => void;
 }
 
-export const SettingsView: React.FC<SettingsViewProps> = ({ data, onImport, onReset, onUpdateSetting }) => {
+export const SettingsView: React.FC<SettingsViewProps> = ({ data, onImport, onReset, onUpdateSetting, onSyncNow, onRestoreBackup }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [importStatus, setImportStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [importErrorMsg, setImportErrorMsg] = useState('');
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [webDavStatus, setWebDavStatus] = useState<{ type: 'success' | 'error' | 'idle', msg: string }>({ type: 'idle', msg: '' });
   const [isSyncing, setIsSyncing] = useState(false);
+  const [showBackups, setShowBackups] = useState(false);
+  const [hasPassphrase, setHasPassphrase] = useState(!!getSessionPassphrase());
+  // What the passphrase is being asked for: choosing one for encryption, syncing, or opening an encrypted file
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{ purpose: 'setup' | 'sync' | 'import'; error?: string } | null>(null);
+  const pendingImportRef = useRef<string | null>(null);
+  const [importReview, setImportReview] = useState<{ result: ValidationResult; allowReplace: boolean } | null>(null);
+  const [csvFile, setCsvFile] = useState<CsvFile | null>(null);
+  const [icsReminders, setIcsReminders] = useState(false);
+  const [icsReminderTime, setIcsReminderTime] = useState('09:00');
   const lang = data.settings.language;
 
   const updateWebDav = (field: string, value: any) => {
@@ -52,17 +76,28 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ data, onImport, onRe
   };
 
   const handleSyncNow = async () => {
-    const { url, username, password, backupCount, proxyUrl } = data.settings.webDav || {};
+    const { url, username, password } = data.settings.webDav || {};
     if (!url || !username || !password) return;
 
     setWebDavStatus({ type: 'idle', msg: '' });
     setIsSyncing(true);
-    const client = createWebDavClient(url, username, password, proxyUrl);
     try {
-      await performBackup(client, data, backupCount || 5);
+      await onSyncNow();
       setWebDavStatus({ type: 'success', msg: t(lang, 'syncSuccess') });
     } catch (e) {
       console.error(e);
+      if (e instanceof SchemaVersionError) {
+        setWebDavStatus({ type: 'error', msg: t(lang, 'newerSchemaError') });
+        setIsSyncing(false);
+        return;
+      }
+      if (e instanceof PassphraseError) {
+        if (e.reason === 'incorrect') setSessionPassphrase(undefined);
+        setHasPassphrase(!!getSessionPassphrase());
+        setPassphrasePrompt({ purpose: 'sync', error: e.reason === 'incorrect' ? t(lang, 'incorrectPassphrase') : undefined });
+        setIsSyncing(false);
+        return;
+      }
       setWebDavStatus({ type: 'error', msg: t(lang, 'syncFailed') });
     }
     setIsSyncing(false);
@@ -70,55 +105,146 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ data, onImport, onRe
   };
 
   const handleExport = () => {
-    // Clean up data before export: remove deprecated fields (rating, color) from logs
-    const cleanData = JSON.parse(JSON.stringify(data)); // Deep clone
-    if (cleanData.habits) {
-      cleanData.habits.forEach((habit: any) => {
-        if (habit.logs) {
-          Object.keys(habit.logs).forEach((dateKey) => {
-            const log = habit.logs[dateKey];
-            // Remove deprecated fields
-            delete log.rating;
-            delete log.color;
-          });
-        }
-      });
+    // Exports carry their schemaVersion, old fields are dropped by the migrations on load
+    downloadFile(JSON.stringify(data), `habitpulse_backup_${new Date().toISOString().split('T')[0]}.json`, 'application/json');
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(habitsToCsv(data), `habitpulse_logs_${new Date().toISOString().split('T')[0]}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const handleExportIcs = () => {
+    const ics = habitsToIcs(data.habits, 'HabitPulse', {
+      reminders: icsReminders,
+      reminderTime: icsReminderTime,
+      weekStart: data.settings.weekStart,
+    });
+    downloadFile(ics, `habitpulse_${new Date().toISOString().split('T')[0]}.ics`, 'text/calendar;charset=utf-8');
+  };
+
+  const showImportStatus = (status: 'success' | 'error', errorMsg = '') => {
+    setImportErrorMsg(errorMsg);
+    setImportStatus(status);
+    setTimeout(() => setImportStatus('idle'), 3000);
+  };
+
+  // Nothing is replaced until the validation report has been reviewed and confirmed
+  const importJson = (json: string) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      setImportReview({ result: { data: null, issues: [{ path: '', code: 'invalidJson', effect: 'file' }] }, allowReplace: true });
+      return;
+    }
+    // A newer file's shape can't be judged by this version, so it is rejected outright
+    if (getSchemaVersion(parsed) > CURRENT_SCHEMA_VERSION) {
+      showImportStatus('error', t(lang, 'newerSchemaError'));
+      return;
+    }
+    try {
+      // Upgrade the valid parts of older exports to the current shape before reviewing them
+      const result = validateAppData(parsed, data.settings);
+      setImportReview({ result: { ...result, data: result.data && migrateAppData(result.data) }, allowReplace: true });
+    } catch (err) {
+      showImportStatus('error', err instanceof SchemaVersionError ? t(lang, 'newerSchemaError') : t(lang, 'importError'));
     }
+  };
+
+  const confirmImport = (imported: AppData) => {
+    onImport(imported);
+    showImportStatus('success');
+    setImportReview(null);
+  };
 
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(cleanData));
-    const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", `habitpulse_backup_${new Date().toISOString().split('T')[0]}.json`);
-    document.body.appendChild(downloadAnchorNode); // required for firefox
-    downloadAnchorNode.click();
-    downloadAnchorNode.remove();
+  // Loop Habit Tracker's zip export, read in memory
+  const importZip = async (file: File) => {
+    try {
+      const buffer = await file.arrayBuffer();
+      if (!isZip(buffer)) throw new Error('Not a zip file');
+      const files = await readZipText(buffer);
+      const loop = findLoopExport(files);
+      if (!loop) throw new Error('No Loop Habit Tracker export in archive');
+      setImportReview({ result: importLoop(loop.checkmarks, loop.habits, data), allowReplace: false });
+    } catch (err) {
+      console.error('Zip import failed:', err);
+      showImportStatus('error', t(lang, 'importError'));
+    }
   };
 
   const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
     const fileReader = new FileReader();
     if (e.target.files && e.target.files[0]) {
-      fileReader.readAsText(e.target.files[0], "UTF-8");
+      const file = e.target.files[0];
+      const name = file.name.toLowerCase();
+      e.target.value = '';
+      if (name.endsWith('.zip')) {
+        importZip(file);
+        return;
+      }
+      const isCsv = name.endsWith('.csv');
+      fileReader.readAsText(file, "UTF-8");
       fileReader.onload = (event) => {
-        try {
-          if (event.target?.result) {
-            const parsed = JSON.parse(event.target.result as string);
-            // Basic validation
-            if (parsed && Array.isArray(parsed.habits)) {
-              onImport(parsed);
-              setImportStatus('success');
-              setTimeout(() => setImportStatus('idle'), 3000);
-            } else {
-              throw new Error("Invalid format");
-            }
-          }
-        } catch (err) {
-          setImportStatus('error');
-          setTimeout(() => setImportStatus('idle'), 3000);
+        if (!event.target?.result) return;
+        const text = event.target.result as string;
+        if (isCsv) {
+          // CSV goes through column mapping first, then the same review as a merge import.
+          // Loop's Checkmarks.csv has one column per habit and converts directly.
+          const [headers, ...rows] = parseCsv(text);
+          if (!headers) showImportStatus('error', t(lang, 'importError'));
+          else if (isLoopCheckmarks(headers, rows)) setImportReview({ result: importLoop(text, undefined, data), allowReplace: false });
+          else setCsvFile({ headers, rows });
+        } else if (isEncryptedPayload(text)) {
+          // Encrypted backups are opened once the passphrase is entered
+          pendingImportRef.current = text;
+          setPassphrasePrompt({ purpose: 'import' });
+        } else {
+          importJson(text);
         }
       };
     }
   };
 
+  const handlePassphrase = async (passphrase: string) => {
+    const purpose = passphrasePrompt?.purpose;
+
+    if (purpose === 'import') {
+      try {
+        const json = await decryptText(pendingImportRef.current || '', passphrase);
+        pendingImportRef.current = null;
+        setPassphrasePrompt(null);
+        importJson(json);
+      } catch (e) {
+        if (e instanceof PassphraseError) {
+          setPassphrasePrompt({ purpose, error: t(lang, 'incorrectPassphrase') });
+        } else {
+          pendingImportRef.current = null;
+          setPassphrasePrompt(null);
+          showImportStatus('error', t(lang, 'importError'));
+        }
+      }
+      return;
+    }
+
+    setSessionPassphrase(passphrase);
+    setHasPassphrase(true);
+    setPassphrasePrompt(null);
+    if (purpose === 'setup') {
+      updateWebDav('encrypt', true);
+    } else if (purpose === 'sync') {
+      handleSyncNow();
+    }
+  };
+
+  const toggleEncryption = () => {
+    if (data.settings.webDav?.encrypt) {
+      // Keep the passphrase for this session, older encrypted backups may still need it
+      updateWebDav('encrypt', false);
+    } else {
+      setPassphrasePrompt({ purpose: 'setup' });
+    }
+  };
+
   return (
     <div className="max-w-2xl mx-auto space-y-8 animate-in slide-in-from-bottom-4 duration-500">
       <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-2xl p-6 sm:p-8">
@@ -222,6 +348,28 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ data, onImport, onRe
                     </button>
                 </div>
              </div>
+
+             {/* Streak Freezes */}
+             <div className="flex items-center justify-between p-4 bg-zinc-50 dark:bg-zinc-900/50 rounded-xl border border-zinc-100 dark:border-zinc-800">
+                <div className="flex items-center gap-3">
+                    <Snowflake size={18} className="text-zinc-500"/>
+                    <div>
+                        <h3 className="font-semibold text-zinc-900 dark:text-zinc-100">{t(lang, 'streakFreezes')}</h3>
+                        <p className="text-xs text-zinc-500">{t(lang, 'streakFreezesDesc')}</p>
+                    </div>
+                </div>
+                <div className="flex bg-zinc-200 dark:bg-zinc-800 rounded-lg p-1">
+                    {[0, 1, 2, 3].map((n) => (
+                        <button
+                            key={n}
+                            onClick={() => onUpdateSetting('streakFreezesPerMonth', n)}
+                            className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${(data.settings.streakFreezesPerMonth || 0) === n ? 'bg-white dark:bg-zinc-600 shadow-sm text-zinc-900 dark:text-white' : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-300'}`}
+                        >
+                            {n}
+                        </button>
+                    ))}
+                </div>
+             </div>
           </div>
 
           {/* Advanced Options */}
@@ -341,6 +489,31 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ data, onImport, onRe
                             </div>
                         </div>
 
+                        {/* Encryption */}
+                        <div className="space-y-1">
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs font-medium text-zinc-500 flex items-center gap-1.5">
+                                    <Lock size={12} />
+                                    {t(lang, 'encryptBackups')}
+                                </label>
+                                <button
+                                    onClick={toggleEncryption}
+                                    className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${data.settings.webDav?.encrypt ? 'bg-zinc-900 dark:bg-white' : 'bg-zinc-200 dark:bg-zinc-700'}`}
+                                >
+                                    <span className={`inline-block h-3 w-3 transform rounded-full bg-white dark:bg-zinc-900 transition-transform ${data.settings.webDav?.encrypt ? 'translate-x-5' : 'translate-x-1'}`} />
+                                </button>
+                            </div>
+                            <p className="text-[10px] text-zinc-400">{t(lang, 'encryptBackupsDesc')}</p>
+                            {data.settings.webDav?.encrypt && !hasPassphrase && (
+                                <button
+                                    onClick={() => setPassphrasePrompt({ purpose: 'sync' })}
+                                    className="text-[10px] font-medium text-amber-500 hover:underline"
+                                >
+                                    {t(lang, 'passphraseNeeded')}
+                                </button>
+                            )}
+                        </div>
+
                         {/* Actions */}
                         <div className="flex items-center gap-2 pt-2">
                             <button 
@@ -361,6 +534,12 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ data, onImport, onRe
                             </button>
                         </div>
                         
+                        {data.settings.webDav?.lastSyncAt && !webDavStatus.msg && (
+                            <p className="text-[10px] text-zinc-400">
+                                {t(lang, 'lastSynced', { time: new Date(data.settings.webDav.lastSyncAt).toLocaleString(lang === 'zh' ? 'zh-CN' : 'en-US') })}
+                            </p>
+                        )}
+
                         {/* Status Message */}
                         {webDavStatus.msg && (
                             <div className={`text-xs flex items-center gap-1.5 ${webDavStatus.type === 'success' ? 'text-emerald-500' : 'text-rose-500'}`}>
@@ -368,6 +547,23 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ data, onImport, onRe
                                 {webDavStatus.msg}
                             </div>
                         )}
+
+                        {/* Backup Browser */}
+                        <div className="pt-2 border-t border-zinc-200 dark:border-zinc-800">
+                            <button
+                                onClick={() => setShowBackups(!showBackups)}
+                                className="flex items-center gap-2 text-xs font-medium text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100 transition-colors"
+                            >
+                                {showBackups ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                <History size={14} />
+                                {t(lang, 'browseBackups')}
+                            </button>
+                            {showBackups && (
+                                <div className="mt-3">
+                                    <BackupBrowser data={data} lang={lang} onRestore={onRestoreBackup} />
+                                </div>
+                            )}
+                        </div>
                     </div>
                  )}
                </div>
@@ -382,13 +578,59 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ data, onImport, onRe
               <h3 className="font-semibold text-zinc-900 dark:text-zinc-100">{t(lang, 'export')}</h3>
               <p className="text-xs text-zinc-500 mt-1">{t(lang, 'exportDesc')}</p>
             </div>
-            <button 
-              onClick={handleExport}
-              className="flex items-center gap-2 px-4 py-2 border-2 border-zinc-500 dark:border-zinc-500 text-zinc-700 dark:text-zinc-300 rounded-lg text-sm font-medium hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
-            >
-              <Download size={16} />
-              {t(lang, 'exportBtn')}
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleExportCsv}
+                className="flex items-center gap-2 px-3 py-2 border-2 border-zinc-300 dark:border-zinc-600 text-zinc-600 dark:text-zinc-300 rounded-lg text-sm font-medium hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+              >
+                <Sheet size={16} />
+                CSV
+              </button>
+              <button 
+                onClick={handleExport}
+                className="flex items-center gap-2 px-4 py-2 border-2 border-zinc-500 dark:border-zinc-500 text-zinc-700 dark:text-zinc-300 rounded-lg text-sm font-medium hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+              >
+                <Download size={16} />
+                {t(lang, 'exportBtn')}
+              </button>
+            </div>
+          </div>
+
+          {/* Calendar (.ics) */}
+          <div className="p-4 bg-zinc-50 dark:bg-zinc-900/50 rounded-xl border border-zinc-100 dark:border-zinc-800 space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-semibold text-zinc-900 dark:text-zinc-100">{t(lang, 'icsExport')}</h3>
+                <p className="text-xs text-zinc-500 mt-1">{t(lang, 'icsExportDesc')}</p>
+              </div>
+              <button
+                onClick={handleExportIcs}
+                className="flex items-center gap-2 px-3 py-2 border-2 border-zinc-300 dark:border-zinc-600 text-zinc-600 dark:text-zinc-300 rounded-lg text-sm font-medium hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+              >
+                <CalendarDays size={16} />
+                .ics
+              </button>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setIcsReminders(!icsReminders)}
+                  className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${icsReminders ? 'bg-zinc-900 dark:bg-white' : 'bg-zinc-200 dark:bg-zinc-700'}`}
+                >
+                  <span className={`inline-block h-3 w-3 transform rounded-full bg-white dark:bg-zinc-900 transition-transform ${icsReminders ? 'translate-x-5' : 'translate-x-1'}`} />
+                </button>
+                <label className="text-xs font-medium text-zinc-500">{t(lang, 'icsReminders')}</label>
+              </div>
+              {icsReminders && (
+                <input
+                  type="time"
+                  value={icsReminderTime}
+                  onChange={(e) => setIcsReminderTime(e.target.value || '09:00')}
+                  className="px-2 py-1 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg text-xs outline-none focus:ring-2 focus:ring-zinc-500"
+                />
+              )}
+            </div>
+            {icsReminders && <p className="text-[10px] text-zinc-400">{t(lang, 'icsRemindersDesc')}</p>}
           </div>
 
           {/* Import */}
@@ -397,14 +639,14 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ data, onImport, onRe
               <h3 className="font-semibold text-zinc-900 dark:text-zinc-100">{t(lang, 'import')}</h3>
               <p className="text-xs text-zinc-500 mt-1">{t(lang, 'importDesc')}</p>
               {importStatus === 'success' && <p className="text-emerald-500 text-xs mt-1 flex items-center gap-1"><CheckCircle2 size={12}/> {t(lang, 'importSuccess')}</p>}
-              {importStatus === 'error' && <p className="text-rose-500 text-xs mt-1 flex items-center gap-1"><AlertTriangle size={12}/> {t(lang, 'importError')}</p>}
+              {importStatus === 'error' && <p className="text-rose-500 text-xs mt-1 flex items-center gap-1"><AlertTriangle size={12}/> {importErrorMsg}</p>}
             </div>
             <div>
               <input 
                 type="file" 
                 ref={fileInputRef} 
                 className="hidden" 
-                accept=".json"
+                accept=".json,.hpenc,.csv,.zip"
                 onChange={handleImportFile}
               />
               <button 
@@ -430,6 +672,39 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ data, onImport, onRe
           </div>
         </div>
       </div>
+
+      <CsvImportDialog
+        csv={csvFile}
+        local={data}
+        lang={lang}
+        onContinue={(result) => {
+          setCsvFile(null);
+          setImportReview({ result, allowReplace: false });
+        }}
+        onCancel={() => setCsvFile(null)}
+      />
+
+      <ImportReview
+        result={importReview?.result || null}
+        local={data}
+        allowReplace={importReview?.allowReplace}
+        lang={lang}
+        onConfirm={confirmImport}
+        onCancel={() => setImportReview(null)}
+      />
+
+      <PassphrasePrompt
+        isOpen={!!passphrasePrompt}
+        lang={lang}
+        description={t(lang, passphrasePrompt?.purpose === 'setup' ? 'setPassphraseDesc' : passphrasePrompt?.purpose === 'import' ? 'importPassphraseDesc' : 'syncPassphraseDesc')}
+        confirm={passphrasePrompt?.purpose === 'setup'}
+        error={passphrasePrompt?.error}
+        onSubmit={handlePassphrase}
+        onCancel={() => {
+          pendingImportRef.current = null;
+          setPassphrasePrompt(null);
+        }}
+      />
     </div>
   );
 };
@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { AppData, Habit } from '../types';
+import { t } from '../utils/i18n';
+import { StatsBanner } from './StatsBanner';
+import { makeHabit } from '../utils/testing';
+
+const habit = (dates: string[], overrides: Partial<Habit> = {}) => makeHabit(dates, { createdAt: '2024-03-01T12:00:00.000Z', ...overrides });
+
+const data = (habits: Habit[], settings: Partial<AppData['settings']> = {}): AppData => ({
+  schemaVersion: 2,
+  habits,
+  settings: { theme: 'system', userName: 'User', language: 'en', weekStart: 'monday', ...settings },
+});
+
+// The streak tile reads "<n> days"
+const streakText = () => screen.getByText(t('en', 'daysUnit')).parentElement?.textContent;
+
+describe('StatsBanner', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('shows the streak and today\'s completion across the spring-forward night', () => {
+    vi.setSystemTime(new Date(2024, 2, 11, 0, 30));
+    render(<StatsBanner data={data([habit(['2024-03-08', '2024-03-09', '2024-03-10']), habit(['2024-03-11'], { id: 'h2' })])} lang="en" onOverviewDayClick={() => {}} />);
+    expect(streakText()).toBe(`4 ${t('en', 'daysUnit')}`);
+    expect(screen.getAllByText('50%').length).toBeGreaterThan(0);
+  });
+
+  it('follows the week start setting for weekly habits', () => {
+    vi.setSystemTime(new Date(2024, 2, 10, 20, 0));
+    const weekly = [habit(['2024-03-02', '2024-03-10'], { createdAt: '2024-02-26T12:00:00.000Z', schedule: { type: 'timesPerWeek', times: 1 } })];
+
+    render(<StatsBanner data={data(weekly, { weekStart: 'monday' })} lang="en" onOverviewDayClick={() => {}} />);
+    expect(streakText()).toBe(`2 ${t('en', 'daysUnit')}`);
+    cleanup();
+
+    render(<StatsBanner data={data(weekly, { weekStart: 'sunday' })} lang="en" onOverviewDayClick={() => {}} />);
+    expect(streakText()).toBe(`1 ${t('en', 'daysUnit')}`);
+  });
+
+  it('bridges a missed day with a streak freeze', () => {
+    vi.setSystemTime(new Date(2024, 4, 3, 9, 0));
+    const habits = [habit(['2024-05-01', '2024-05-03'])];
+    render(<StatsBanner data={data(habits, { streakFreezesPerMonth: 1 })} lang="en" onOverviewDayClick={() => {}} />);
+    expect(streakText()).toBe(`2 ${t('en', 'daysUnit')}`);
+  });
+
+  it('shows the whole routine in the overview heatmap', () => {
+    vi.setSystemTime(new Date(2024, 4, 15, 12, 0));
+    const onOverviewDayClick = vi.fn();
+    const habits = [habit(['2024-05-14'], { title: 'Read' }), habit([], { id: 'h2', title: 'Run' })];
+    const { container } = render(<StatsBanner data={data(habits)} lang="en" onOverviewDayClick={onOverviewDayClick} />);
+
+    const cell = container.querySelector('[title^="May 14, 2024"]')!;
+    expect(cell.getAttribute('title')).toBe(`May 14, 2024 · 1/2\n${t('en', 'overviewDone', { habits: 'Read' })}\n${t('en', 'overviewMissed', { habits: 'Run' })}`);
+    fireEvent.click(cell);
+    expect(onOverviewDayClick.mock.calls[0][0]).toEqual(new Date(2024, 4, 14));
+  });
+
+  it('renders nothing without active habits', () => {
+    vi.setSystemTime(new Date(2024, 4, 3));
+    const { container } = render(<StatsBanner data={data([habit([], { archived: true })])} lang="en" onOverviewDayClick={() => {}} />);
+    expect(container.innerHTML).toBe('');
+  });
+});
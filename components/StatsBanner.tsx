@@ -1,26 +1,33 @@
 
 import React, { useMemo, useRef, useEffect, useState } from 'react';
 import { Trophy, Flame, Target, Zap, Quote, ChevronUp, ChevronDown } from 'lucide-react';
-import { AppData, Language, DailyLog } from '../types';
+import { AppData, Language } from '../types';
 import { t } from '../utils/i18n';
 import { format } from 'date-fns';
 import { getDailyQuote } from '../utils/quotes';
+import { isHabitDue } from '../utils/schedule';
+import { getOverallStreaks } from '../utils/streaks';
 import { useLocalStorage } from '../hooks/useLocalStorage';
 import Marquee from 'react-fast-marquee';
+import { OverviewHeatmap } from './OverviewHeatmap';
 
 interface StatsBannerProps {
   data: AppData;
   lang: Language;
+  onOverviewDayClick: (date: Date) => void;
+  onOverviewSelectDays?: (start: Date, end: Date) => void;
 }
 
-export const StatsBanner: React.FC<StatsBannerProps> = ({ data, lang }) => {
+export const StatsBanner: React.FC<StatsBannerProps> = ({ data, lang, onOverviewDayClick, onOverviewSelectDays }) => {
   const [isCollapsed, setIsCollapsed] = useLocalStorage('stats_banner_collapsed', false);
   const quoteContainerRef = useRef<HTMLDivElement>(null);
   const textRef = useRef<HTMLSpanElement>(null);
   const [shouldScroll, setShouldScroll] = useState(false);
   const todayKey = format(new Date(), 'yyyy-MM-dd');
   
-  const totalHabits = data.habits.filter(h => !h.archived).length;
+  const activeHabits = useMemo(() => data.habits.filter(h => !h.archived), [data.habits]);
+  const totalHabits = activeHabits.length;
+  const weekStart = data.settings.weekStart || 'sunday';
   
   // Ensure all hooks are called unconditionally at the top level
   const quote = useMemo(() => getDailyQuote(), []);
@@ -53,51 +60,22 @@ export const StatsBanner: React.FC<StatsBannerProps> = ({ data, lang }) => {
   const stats = useMemo(() => {
     if (totalHabits === 0) return { completedToday: 0, completionRate: 0, streak: 0 };
 
-    // 1. Completion Rate
-    const completedToday = data.habits.reduce((acc, habit) => {
+    const today = new Date();
+
+    // 1. Completion Rate, counting only habits due today
+    const dueToday = activeHabits.filter(habit => isHabitDue(habit, today, weekStart));
+    const completedToday = dueToday.reduce((acc, habit) => {
       return acc + (habit.logs[todayKey]?.completed ? 1 : 0);
     }, 0);
-    const completionRate = Math.round((completedToday / totalHabits) * 100);
+    const completionRate = dueToday.length > 0 ? Math.round((completedToday / dueToday.length) * 100) : 100;
 
     // 2. Global Streak Calculation
-    const activityMap = new Set<string>();
-    data.habits.forEach(habit => {
-      Object.values(habit.logs).forEach((log: DailyLog) => {
-        if (log.completed) {
-          activityMap.add(log.date);
-        }
-      });
+    const { current: streak } = getOverallStreaks(data.habits, weekStart, {
+      freezesPerMonth: data.settings.streakFreezesPerMonth || 0,
     });
 
-    let streak = 0;
-    const today = new Date();
-    
-    const isTodayDone = activityMap.has(todayKey);
-    
-    const subtractDay = (d: Date) => {
-      const newDate = new Date(d);
-      newDate.setDate(newDate.getDate() - 1);
-      return newDate;
-    };
-
-    let checkDate = isTodayDone ? today : subtractDay(today);
-    
-    if (!isTodayDone && !activityMap.has(format(checkDate, 'yyyy-MM-dd'))) {
-        streak = 0;
-    } else {
-        while (true) {
-            const dateStr = format(checkDate, 'yyyy-MM-dd');
-            if (activityMap.has(dateStr)) {
-                streak++;
-                checkDate = subtractDay(checkDate);
-            } else {
-                break;
-            }
-        }
-    }
-
     return { completedToday, completionRate, streak };
-  }, [data.habits, totalHabits, todayKey]);
+  }, [data.habits, activeHabits, totalHabits, todayKey, weekStart, data.settings.streakFreezesPerMonth]);
 
   // Handle empty state here to ensure hooks are always called in the same order
   if (totalHabits === 0) return null;
@@ -173,6 +151,18 @@ export const StatsBanner: React.FC<StatsBannerProps> = ({ data, lang }) => {
                 </div>
               </div>
             </div>
+
+            {/* All habits at a glance */}
+            <div className={`mt-6 transition-opacity duration-500 ${isCollapsed ? 'opacity-0' : 'opacity-100'}`}>
+              <OverviewHeatmap
+                habits={data.habits}
+                weekStart={weekStart}
+                splitMonths={data.settings.splitMonths ?? false}
+                lang={lang}
+                onClickDay={onOverviewDayClick}
+                onSelectRange={onOverviewSelectDays}
+              />
+            </div>
         </div>
       </div>
       
@@ -0,0 +1,46 @@
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+import { Language } from '../types';
+import { t } from '../utils/i18n';
+import { UndoToast as UndoToastState } from '../hooks/useUndoHistory';
+
+interface UndoToastProps {
+  toast: UndoToastState | null;
+  lang: Language;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION = 6000; // ms
+
+// "Habit deleted — Undo" notice after destructive actions; above modals, since the calendar lives in one
+export const UndoToast: React.FC<UndoToastProps> = ({ toast, lang, onUndo, onDismiss }) => {
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(onDismiss, TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [toast, onDismiss]);
+
+  if (!toast) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] w-[calc(100%-2rem)] max-w-sm">
+      <div key={toast.id} className="modal-enter flex items-center gap-3 pl-4 pr-2 py-2 bg-zinc-900 dark:bg-zinc-50 text-white dark:text-zinc-900 rounded-xl shadow-lg">
+        <p className="flex-1 text-sm font-medium">{t(lang, toast.message)}</p>
+        <button
+          onClick={onUndo}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-semibold hover:bg-white/10 dark:hover:bg-zinc-900/10 transition-colors"
+        >
+          <Undo2 size={16} />
+          {t(lang, 'undo')}
+        </button>
+        <button
+          onClick={onDismiss}
+          className="p-1.5 rounded-lg text-zinc-400 hover:text-white dark:hover:text-zinc-900 transition-colors"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AppData } from '../types';
+import { AppStorage } from '../utils/storage';
+
+// AppData state persisted through an AppStorage. `storedData` is what storage.load() returned before
+// the first render, `initialValue` is used when that was nothing: only pass null for a store that
+// loaded and was empty, since the first save then replaces everything. Saves run one at a time,
+// each writing only what changed since the previous one.
+export function useAppStorage(storage: AppStorage, storedData: AppData | null, initialValue: AppData): [AppData, (value: AppData | ((val: AppData) => AppData)) => void] {
+  const [storedValue, setStoredValue] = useState<AppData>(storedData || initialValue);
+  // What the storage holds (or will, once the queued saves finish); null while it holds nothing
+  const savedRef = useRef<AppData | null>(storedData);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  // After a failed save the differences no longer line up, so the next one rewrites everything
+  const failedRef = useRef(false);
+
+  const setValue = useCallback((value: AppData | ((val: AppData) => AppData)) => {
+    setStoredValue(current => value instanceof Function ? value(current) : value);
+  }, []);
+
+  useEffect(() => {
+    if (savedRef.current === storedValue) return;
+    const prev = savedRef.current;
+    savedRef.current = storedValue;
+    queueRef.current = queueRef.current
+      .then(() => storage.save(failedRef.current ? null : prev, storedValue))
+      .then(() => { failedRef.current = false; })
+      .catch(error => {
+        failedRef.current = true;
+        console.warn('Error saving data:', error);
+      });
+  }, [storage, storedValue]);
+
+  // Another tab saved: reload once our own pending saves are written
+  useEffect(() => {
+    return storage.subscribe(() => {
+      queueRef.current = queueRef.current
+        .then(() => storage.load())
+        .then(loaded => {
+          if (!loaded) return;
+          savedRef.current = loaded;
+          setStoredValue(loaded);
+        })
+        .catch(error => console.warn('Error reloading data changed in another tab:', error));
+    });
+  }, [storage]);
+
+  return [storedValue, setValue];
+}
@@ -0,0 +1,22 @@
+import { useCallback, useRef } from 'react';
+import { AppData } from '../types';
+import { TranslationKey } from '../utils/i18n';
+import { completesLog, habitReducer, HabitAction } from '../utils/habitReducer';
+import { playCheckSound } from '../utils/sound';
+
+type DataUpdate = AppData | ((prev: AppData) => AppData);
+
+// Connects the habit reducer to the app's state. `setData` is the tracked, undoable setter from App;
+// side effects the reducer can't have, like the check sound, happen here.
+export function useHabitStore(data: AppData, setData: (value: DataUpdate, toast?: TranslationKey) => void) {
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  // `toast` offers an undo notice for the action, see useUndoHistory
+  const dispatch = useCallback((action: HabitAction, toast?: TranslationKey) => {
+    if (completesLog(dataRef.current, action)) playCheckSound();
+    setData(prev => habitReducer(prev, action), toast);
+  }, [setData]);
+
+  return dispatch;
+}
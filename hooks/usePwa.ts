@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+// Chrome's install prompt event, not in the DOM typings yet
+interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+const isStandalone = () => {
+  return window.matchMedia('(display-mode: standalone)').matches || (navigator as Navigator & { standalone?: boolean }).standalone === true;
+};
+
+// iOS Safari has no install prompt, the user has to add the app from the share sheet
+const isIos = () => /iphone|ipad|ipod/i.test(navigator.userAgent);
+
+// Registers the service worker (production builds only) and exposes the install prompt and pending updates
+export function usePwa() {
+  const [installEvent, setInstallEvent] = useState<BeforeInstallPromptEvent | null>(null);
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  const [standalone, setStandalone] = useState(() => typeof window !== 'undefined' && isStandalone());
+  const reloadingRef = useRef(false);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+
+    let registration: ServiceWorkerRegistration | undefined;
+    const watch = (worker: ServiceWorker | null) => {
+      if (!worker) return;
+      worker.addEventListener('statechange', () => {
+        // Without a controller this is the first install, not an update
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaitingWorker(worker);
+      });
+    };
+
+    navigator.serviceWorker.register('/sw.js').then((reg) => {
+      registration = reg;
+      if (reg.waiting && navigator.serviceWorker.controller) setWaitingWorker(reg.waiting);
+      watch(reg.installing);
+      reg.addEventListener('updatefound', () => watch(reg.installing));
+    }).catch((error) => {
+      console.warn('Service worker registration failed:', error);
+    });
+
+    // Home-screen apps stay open for days, so look for a new deploy whenever the app comes back
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') registration?.update().catch(() => {});
+    };
+    const handleControllerChange = () => {
+      if (!reloadingRef.current) return;
+      window.location.reload();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibility);
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleBeforeInstall = (event: Event) => {
+      event.preventDefault();
+      setInstallEvent(event as BeforeInstallPromptEvent);
+    };
+    const handleInstalled = () => {
+      setInstallEvent(null);
+      setStandalone(true);
+    };
+    window.addEventListener('beforeinstallprompt', handleBeforeInstall);
+    window.addEventListener('appinstalled', handleInstalled);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', handleBeforeInstall);
+      window.removeEventListener('appinstalled', handleInstalled);
+    };
+  }, []);
+
+  const install = useCallback(async () => {
+    if (!installEvent) return;
+    await installEvent.prompt();
+    await installEvent.userChoice;
+    // The event can only be used once
+    setInstallEvent(null);
+  }, [installEvent]);
+
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) return;
+    reloadingRef.current = true;
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+  }, [waitingWorker]);
+
+  return {
+    canInstall: !!installEvent && !standalone,
+    showIosInstallHint: !standalone && typeof navigator !== 'undefined' && isIos(),
+    install,
+    updateReady: !!waitingWorker,
+    applyUpdate,
+  };
+}
@@ -0,0 +1,124 @@
+import { useState, useEffect, useRef } from 'react';
+import { Habit, Language, WeekStart } from '../types';
+import { t } from '../utils/i18n';
+import { toDateKey } from '../utils/date';
+import { formatAmount, isMeasurable } from '../utils/habits';
+import { isHabitDue } from '../utils/schedule';
+
+// Browsers have no way to schedule a notification for later, so reminders fire from timers while the
+// app is open (or kept alive in the background). The service worker delivers the "Mark done" action.
+
+export const REMINDER_DONE_MESSAGE = 'REMINDER_DONE';
+const REMINDER_DONE_PARAM = 'reminderDone';
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Asks once, from a user gesture such as adding the first reminder
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!notificationsSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// The next time a HH:mm reminder fires: later today, otherwise tomorrow
+const nextOccurrence = (time: string, now: Date): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const next = new Date(now);
+  next.setHours(hours, minutes, 0, 0);
+  if (next <= now) next.setDate(next.getDate() + 1);
+  return next;
+};
+
+const showReminder = async (habit: Habit, dateKey: string, lang: Language) => {
+  const body = isMeasurable(habit) && habit.target
+    ? t(lang, 'reminderBodyAmount', { amount: `${formatAmount(habit.target)}${habit.unit ? ` ${habit.unit}` : ''}` })
+    : habit.description || t(lang, 'reminderBody');
+  const options = {
+    body,
+    tag: `reminder-${habit.id}`,
+    icon: '/icons/icon-192.png',
+    data: { habitId: habit.id, date: dateKey },
+  };
+
+  // Actions are only available on notifications shown by the service worker
+  if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
+    const registration = await navigator.serviceWorker.ready;
+    await registration.showNotification(habit.title, {
+      ...options,
+      actions: [{ action: 'done', title: t(lang, 'reminderMarkDone') }],
+    } as NotificationOptions);
+    return;
+  }
+  const notification = new Notification(habit.title, options);
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
+
+export function useReminders(habits: Habit[], weekStart: WeekStart, lang: Language, onMarkDone: (habitId: string) => void) {
+  const habitsRef = useRef(habits);
+  const onMarkDoneRef = useRef(onMarkDone);
+  habitsRef.current = habits;
+  onMarkDoneRef.current = onMarkDone;
+  // Bumped after each reminder so the next day's occurrence gets scheduled
+  const [round, setRound] = useState(0);
+
+  // Only today's reminder can be acted on, and never to un-complete a habit
+  const markDone = (habitId: string, dateKey: string) => {
+    const habit = habitsRef.current.find(h => h.id === habitId);
+    if (!habit || dateKey !== toDateKey(new Date()) || habit.logs[dateKey]?.completed) return;
+    onMarkDoneRef.current(habitId);
+  };
+
+  const schedule = habits
+    .filter(h => !h.archived && h.reminders?.length)
+    .map(h => `${h.id}@${h.reminders!.join(',')}`)
+    .join('|');
+
+  useEffect(() => {
+    if (!notificationsSupported() || !schedule) return;
+    const now = new Date();
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    habitsRef.current.filter(h => !h.archived).forEach(habit => {
+      (habit.reminders || []).forEach(time => {
+        const at = nextOccurrence(time, now);
+        timers.push(setTimeout(() => {
+          setRound(r => r + 1);
+          if (Notification.permission !== 'granted') return;
+          // Check against the latest data: the habit may be done or gone by now
+          const current = habitsRef.current.find(h => h.id === habit.id);
+          const today = new Date();
+          const dateKey = toDateKey(today);
+          if (!current || current.archived || !isHabitDue(current, today, weekStart) || current.logs[dateKey]?.completed) return;
+          showReminder(current, dateKey, lang).catch(error => console.warn('Failed to show reminder:', error));
+        }, at.getTime() - now.getTime()));
+      });
+    });
+
+    return () => timers.forEach(clearTimeout);
+  }, [schedule, weekStart, lang, round]);
+
+  // "Mark done" from a notification, while the app is open
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === REMINDER_DONE_MESSAGE) markDone(event.data.habitId, event.data.date);
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
+
+  // ...or when the service worker had to open the app for it
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const habitId = params.get(REMINDER_DONE_PARAM);
+    if (!habitId) return;
+    markDone(habitId, params.get('date') || '');
+    params.delete(REMINDER_DONE_PARAM);
+    params.delete('date');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+  }, []);
+}
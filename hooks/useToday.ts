@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { addDays, isSameDay, startOfDay } from 'date-fns';
+
+// Today's date (at midnight) that moves on to the next day while the app stays open. A timer fires
+// at the next midnight; since timers are paused in background tabs and on sleeping devices, the
+// date is also checked when the page becomes visible again.
+export function useToday(): Date {
+  const [today, setToday] = useState(() => startOfDay(new Date()));
+
+  useEffect(() => {
+    const refresh = () => {
+      const now = new Date();
+      setToday(prev => isSameDay(prev, now) ? prev : startOfDay(now));
+    };
+
+    // A second past the next midnight, so the timer can't land just before it
+    let timer: ReturnType<typeof setTimeout>;
+    const scheduleNextDay = () => {
+      const now = new Date();
+      timer = setTimeout(() => {
+        refresh();
+        scheduleNextDay();
+      }, addDays(startOfDay(now), 1).getTime() - now.getTime() + 1000);
+    };
+    scheduleNextDay();
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') refresh();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('focus', refresh);
+
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('focus', refresh);
+    };
+  }, []);
+
+  return today;
+}
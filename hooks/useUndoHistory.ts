@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AppData } from '../types';
+import { TranslationKey } from '../utils/i18n';
+import { HistoryEntry, HISTORY_LIMIT, isUndoableChange, revertChanges } from '../utils/history';
+
+type DataUpdate = AppData | ((prev: AppData) => AppData);
+
+export interface UndoToast {
+  id: number;
+  message: TranslationKey;
+}
+
+// Undo/redo over the edits made through the returned setData. Other writes (sync results) pass by
+// without an entry. Entries are taken when the new state renders, so StrictMode's double-invoked
+// updaters don't record twice.
+export function useUndoHistory(data: AppData, setTrackedData: (value: DataUpdate) => void) {
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+  const [toast, setToast] = useState<UndoToast | null>(null);
+  const previousRef = useRef(data);
+  const pendingRef = useRef<{ type: 'edit'; toast?: TranslationKey } | { type: 'undo' | 'redo'; entry: HistoryEntry } | null>(null);
+
+  useEffect(() => {
+    const before = previousRef.current;
+    const pending = pendingRef.current;
+    previousRef.current = data;
+    pendingRef.current = null;
+    if (!pending || before === data) return;
+
+    if (pending.type === 'edit') {
+      if (!isUndoableChange(before, data)) return;
+      setPast(prev => [...prev, { before, after: data }].slice(-HISTORY_LIMIT));
+      setFuture([]);
+      if (pending.toast) setToast({ id: Date.now(), message: pending.toast });
+    } else if (pending.type === 'undo') {
+      setFuture(prev => [...prev, pending.entry]);
+    } else {
+      setPast(prev => [...prev, pending.entry]);
+    }
+  }, [data]);
+
+  // `toast` names the action in a notice with an Undo button, for the destructive ones
+  const setData = useCallback((value: DataUpdate, toast?: TranslationKey) => {
+    pendingRef.current = { type: 'edit', toast };
+    setTrackedData(value);
+  }, [setTrackedData]);
+
+  const undo = useCallback(() => {
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    setPast(prev => prev.slice(0, -1));
+    setToast(null);
+    pendingRef.current = { type: 'undo', entry };
+    setTrackedData(current => revertChanges(current, entry.before, entry.after));
+  }, [past, setTrackedData]);
+
+  const redo = useCallback(() => {
+    const entry = future[future.length - 1];
+    if (!entry) return;
+    setFuture(prev => prev.slice(0, -1));
+    pendingRef.current = { type: 'redo', entry };
+    setTrackedData(current => revertChanges(current, entry.after, entry.before));
+  }, [future, setTrackedData]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS, Ctrl+Y also redoes); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  return { setData, undo, redo, canUndo: past.length > 0, canRedo: future.length > 0, toast, dismissToast };
+}
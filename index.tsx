@@ -1,6 +1,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { LoadErrorScreen } from './components/LoadErrorScreen';
+import { openAppStorage } from './utils/storage';
+import { migrateAppData } from './utils/migrations';
+import { AppData } from './types';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -8,8 +12,23 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+
+// Data is loaded before the first render, so the app never starts from an empty state
+(async () => {
+  const storage = await openAppStorage(migrateAppData);
+  let storedData: AppData | null;
+  try {
+    storedData = await storage.load();
+  } catch (error) {
+    // Starting from empty data here would save it over what is stored, so show the error instead
+    console.error('Error loading stored data:', error);
+    root.render(<LoadErrorScreen error={error} lang={navigator.language.startsWith('zh') ? 'zh' : 'en'} />);
+    return;
+  }
+
+  root.render(
+    <React.StrictMode>
+      <App storage={storage} storedData={storedData} />
+    </React.StrictMode>
+  );
+})();
@@ -0,0 +1,95 @@
+// HabitPulse service worker. The placeholders are filled in at build time by the precache plugin in
+// vite.config.ts, so every deploy ships a worker with a new cache name and the app can offer to reload.
+
+const PRECACHE = 'habitpulse-precache-__CACHE_VERSION__';
+const RUNTIME = 'habitpulse-runtime';
+const PRECACHE_URLS = self.__PRECACHE_MANIFEST__;
+
+// Styles and fonts still come from CDNs; keep the last copy so the app looks right offline
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const RUNTIME_WARMUP = [
+  'https://cdn.tailwindcss.com/',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap',
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(PRECACHE);
+    await cache.addAll(PRECACHE_URLS);
+    // Best effort: the first visit loads these before the worker is in control
+    const runtime = await caches.open(RUNTIME);
+    await Promise.all(RUNTIME_WARMUP.map(async (url) => {
+      try {
+        const request = new Request(url, { mode: 'no-cors' });
+        await runtime.put(request, await fetch(request));
+      } catch (e) {
+        // Offline during install, picked up at runtime instead
+      }
+    }));
+  })());
+  // No skipWaiting here: a new version waits until the user accepts the update banner
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('habitpulse-precache-') && name !== PRECACHE).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME);
+  const cached = await cache.match(request);
+  const network = fetch(request).then((response) => {
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  }).catch(() => cached);
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // Single-page app: every navigation gets the cached shell
+    if (request.mode === 'navigate') {
+      event.respondWith(caches.match('/index.html', { cacheName: PRECACHE }).then(cached => cached || fetch(request)));
+      return;
+    }
+    // Build assets are precached; anything else (e.g. a same-origin WebDAV proxy) goes to the network
+    event.respondWith(caches.match(request, { cacheName: PRECACHE }).then(cached => cached || fetch(request)));
+    return;
+  }
+
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// Reminder notifications (see hooks/useReminders.ts). "Mark done" goes to an open window, or opens the
+// app with the habit in the URL when none is running.
+self.addEventListener('notificationclick', (event) => {
+  const { habitId, date } = event.notification.data || {};
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (event.action === 'done' && habitId) {
+      // A single window handles it; the others pick up the change like any other edit
+      if (windows.length > 0) {
+        windows[0].postMessage({ type: 'REMINDER_DONE', habitId, date });
+        return;
+      }
+      await self.clients.openWindow(`/?reminderDone=${encodeURIComponent(habitId)}&date=${encodeURIComponent(date)}`);
+      return;
+    }
+    if (windows.length > 0) await windows[0].focus();
+    else await self.clients.openWindow('/');
+  })());
+});
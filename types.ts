@@ -1,13 +1,25 @@
 
+export type Rating = 1 | 2 | 3 | 4 | 5;
+
 export interface DailyLog {
   date: string; // ISO Date string YYYY-MM-DD
   completed: boolean;
   value?: number; // For quantitative habits
   note?: string;
-  rating?: 1 | 2 | 3 | 4 | 5; // Qualitative rating
+  rating?: Rating; // How well it went, set on its own (a rating doesn't check the day in)
   timestamp?: string; // ISO String for exact time of completion
+  updatedAt?: string; // ISO String of the last change, used to merge synced copies
 }
 
+export type HabitKind = 'check' | 'measurable';
+
+export type HabitSchedule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; days: number[] } // 0 = Sunday, same as Date.getDay()
+  | { type: 'timesPerWeek'; times: number }
+  | { type: 'timesPerMonth'; times: number }
+  | { type: 'interval'; every: number }; // Every N days, counted from the creation day
+
 export interface Habit {
   id: string;
   title: string;
@@ -16,21 +28,38 @@ export interface Habit {
   createdAt: string;
   logs: Record<string, DailyLog>; // Keyed by date string YYYY-MM-DD for O(1) access
   archived: boolean;
+  kind?: HabitKind; // Defaults to 'check' for habits created before measurable habits existed
+  unit?: string; // Measurable only, e.g. "pages"
+  target?: number; // Measurable only, daily amount that counts as completed
+  schedule?: HabitSchedule; // Defaults to daily
+  reminders?: string[]; // Local HH:mm times, notified on due days until completed
+  updatedAt?: string; // ISO String of the last change to anything but the logs
 }
 
-export type ViewState = 'dashboard' | 'settings' | 'analytics';
+// Which days a heatmap shows. Dates are YYYY-MM-DD; ranges never extend past today.
+export type HeatmapRange =
+  | { type: 'lastWeeks'; weeks: number } // The current week and the N weeks before it
+  | { type: 'year'; year: number } // A calendar year
+  | { type: 'custom'; start: string; end: string }
+  | { type: 'sinceStart' }; // From the habit's creation or its earliest log
+
+export type ViewState = 'dashboard' | 'settings' | 'analytics' | 'journal';
 
 export type Language = 'en' | 'zh';
 export type WeekStart = 'sunday' | 'monday';
 
 export interface AppData {
+  schemaVersion: number; // See utils/migrations.ts
   habits: Habit[];
+  // Deletion times for sync, keyed by habit id or "habitId/YYYY-MM-DD" for a single log
+  deleted?: Record<string, string>;
   settings: {
     theme: 'light' | 'dark' | 'system';
     userName: string;
     language: Language;
     weekStart: WeekStart;
     splitMonths?: boolean;
+    streakFreezesPerMonth?: number; // Missed due days per month that don't break a streak
     webDav?: {
       enabled: boolean;
       url: string;
@@ -39,10 +68,21 @@ export interface AppData {
       proxyUrl?: string;
       backupCount: number;
       autoSync: boolean;
+      encrypt?: boolean; // Encrypt uploads with the session passphrase
+      lastSyncAt?: string;
     };
   };
 }
 
+// Heatmap colors for ratings 1-5, from a bad day to a great one
+export const RATING_COLORS: Record<Rating, string> = {
+  1: '#f43f5e',
+  2: '#f97316',
+  3: '#f59e0b',
+  4: '#84cc16',
+  5: '#10b981',
+};
+
 export const HABIT_COLORS = [
   { name: 'Emerald', value: '#10b981', tailwind: 'bg-emerald-500' },
   { name: 'Blue', value: '#3b82f6', tailwind: 'bg-blue-500' },
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { DailyLog, Habit } from '../types';
+import { getDaySummary, getWeeklyRatings } from './analytics';
+import { toDateKey } from './date';
+import { makeHabit } from './testing';
+
+const habit = (id: string, dates: string[], overrides: Partial<Habit> = {}) => {
+  return makeHabit(dates, { id, title: id, createdAt: '2024-05-01T12:00:00.000Z', ...overrides });
+};
+
+const ids = (habits: Habit[]) => habits.map(h => h.id);
+
+describe('getDaySummary', () => {
+  // 2024-05-15 is a Wednesday
+  const day = new Date(2024, 4, 15);
+
+  it('splits the habits by how the day went', () => {
+    const summary = getDaySummary([
+      habit('read', ['2024-05-15']),
+      habit('run', []),
+      habit('gym', [], { schedule: { type: 'weekdays', days: [1, 5] } }),
+      habit('swim', [], { schedule: { type: 'timesPerWeek', times: 1 } }),
+    ], day, 'monday');
+    expect(ids(summary.done)).toEqual(['read']);
+    expect(ids(summary.missed)).toEqual(['run']);
+    expect(ids(summary.off)).toEqual(['gym']);
+    expect(ids(summary.optional)).toEqual(['swim']);
+    expect(summary.rate).toBe(0.5);
+  });
+
+  it('counts a habit done on its day off as due', () => {
+    const summary = getDaySummary([habit('gym', ['2024-05-15'], { schedule: { type: 'weekdays', days: [1, 5] } })], day, 'monday');
+    expect(summary.rate).toBe(1);
+  });
+
+  it('leaves out archived habits and habits that had not started yet', () => {
+    const summary = getDaySummary([
+      habit('old', [], { archived: true }),
+      habit('new', [], { createdAt: '2024-05-20T12:00:00.000Z' }),
+      // Started earlier through an imported log
+      habit('imported', ['2024-04-01'], { createdAt: '2024-05-20T12:00:00.000Z' }),
+    ], day, 'monday');
+    expect(ids(summary.missed)).toEqual(['imported']);
+    expect(summary.done.length + summary.off.length + summary.optional.length).toBe(0);
+  });
+
+  it('has no rate when nothing was due', () => {
+    expect(getDaySummary([habit('gym', [], { schedule: { type: 'weekdays', days: [1] } })], day, 'monday').rate).toBeNull();
+    expect(getDaySummary([], day, 'monday').rate).toBeNull();
+  });
+});
+
+describe('getWeeklyRatings', () => {
+  const rated = (ratings: Record<string, DailyLog['rating']>) => habit('run', [], {
+    logs: Object.fromEntries(Object.entries(ratings).map(([date, rating]) => [date, { date, completed: true, rating }])),
+  });
+
+  it('averages each week, oldest first, ending with the current week', () => {
+    // Wednesday 2024-05-15; Monday weeks start on 05-06 and 05-13
+    const weeks = getWeeklyRatings(rated({
+      '2024-05-06': 2,
+      '2024-05-12': 4,
+      '2024-05-13': 5,
+      '2024-04-28': 1, // Before the three weeks shown
+    }), 3, 'monday', new Date(2024, 4, 15));
+    expect(weeks.map(w => toDateKey(w.start))).toEqual(['2024-04-29', '2024-05-06', '2024-05-13']);
+    expect(weeks.map(w => w.average)).toEqual([null, 3, 5]);
+    expect(weeks.map(w => w.count)).toEqual([0, 2, 1]);
+  });
+
+  it('follows the week start setting and skips unrated days', () => {
+    const habitWithLogs = rated({ '2024-05-12': 4 });
+    habitWithLogs.logs['2024-05-13'] = { date: '2024-05-13', completed: true };
+    const [sunday] = getWeeklyRatings(habitWithLogs, 1, 'sunday', new Date(2024, 4, 15));
+    expect(toDateKey(sunday.start)).toBe('2024-05-12');
+    expect(sunday).toMatchObject({ average: 4, count: 1 });
+  });
+});
@@ -0,0 +1,140 @@
+import { addDays, addWeeks, differenceInCalendarWeeks, isAfter, isSameDay, startOfDay, startOfWeek, subDays } from 'date-fns';
+import { DailyLog, Habit, WeekStart } from '../types';
+import { toDateKey, parseDateKey } from './date';
+import { getDayStatus } from './schedule';
+import { getHabitStartDate } from './habits';
+import { weekStartsOn } from './calendar';
+
+export type AnalyticsRange = 'week' | 'month' | 'quarter' | 'year';
+
+// Trailing windows ending today, so a weekly review always covers a full 7 days
+const RANGE_DAYS: Record<AnalyticsRange, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+};
+
+export interface DateInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface CompletionStats {
+  completed: number;
+  total: number;
+  rate: number; // 0-100
+}
+
+export const getRangeInterval = (range: AnalyticsRange, today: Date = new Date()): DateInterval => {
+  const end = startOfDay(today);
+  return { start: subDays(end, RANGE_DAYS[range] - 1), end };
+};
+
+// Only days the habit was due count. Today only counts once it is done, since it is still in progress.
+export const getCompletionStats = (habit: Habit, interval: DateInterval, weekStart: WeekStart, today: Date = new Date()): CompletionStats => {
+  const habitStart = getHabitStartDate(habit);
+  const start = isAfter(habitStart, interval.start) ? habitStart : interval.start;
+
+  let completed = 0;
+  let total = 0;
+  for (let d = start; !isAfter(d, interval.end); d = addDays(d, 1)) {
+    if (habit.logs[toDateKey(d)]?.completed) {
+      completed++;
+      total++;
+    } else if (!isSameDay(d, today) && getDayStatus(habit, d, weekStart) === 'due') {
+      total++;
+    }
+  }
+
+  return { completed, total, rate: total > 0 ? Math.round((completed / total) * 100) : 0 };
+};
+
+// Completed check-ins per weekday, indexed like Date.getDay() (0 = Sunday)
+export const getWeekdayDistribution = (habits: Habit[], interval: DateInterval): number[] => {
+  const counts = new Array(7).fill(0);
+  habits.forEach(habit => {
+    Object.values(habit.logs).forEach((log: DailyLog) => {
+      if (!log.completed) return;
+      const date = parseDateKey(log.date);
+      if (date < interval.start || date > interval.end) return;
+      counts[date.getDay()]++;
+    });
+  });
+  return counts;
+};
+
+// Completed check-ins per local hour of the day, based on DailyLog.timestamp
+export const getHourHistogram = (habits: Habit[], interval: DateInterval): number[] => {
+  const counts = new Array(24).fill(0);
+  habits.forEach(habit => {
+    Object.values(habit.logs).forEach((log: DailyLog) => {
+      if (!log.completed || !log.timestamp) return;
+      const date = parseDateKey(log.date);
+      if (date < interval.start || date > interval.end) return;
+      const time = new Date(log.timestamp);
+      if (isNaN(time.getTime())) return;
+      counts[time.getHours()]++;
+    });
+  });
+  return counts;
+};
+
+export interface DaySummary {
+  done: Habit[];
+  missed: Habit[]; // Due and not done; for today that means not done yet
+  optional: Habit[]; // Not done, but the habit could still reach its quota without this day
+  off: Habit[]; // Not expected that day
+  rate: number | null; // Share of due habits that were done (0-1), null when nothing was due
+}
+
+// How the whole routine went on one day: active habits that had started by then, split by
+// whether they were done, missed, or not needed that day
+export const getDaySummary = (habits: Habit[], date: Date, weekStart: WeekStart): DaySummary => {
+  const key = toDateKey(date);
+  const day = startOfDay(date);
+  const summary: DaySummary = { done: [], missed: [], optional: [], off: [], rate: null };
+
+  habits.forEach(habit => {
+    if (habit.archived || isAfter(getHabitStartDate(habit), day)) return;
+    if (habit.logs[key]?.completed) {
+      summary.done.push(habit);
+      return;
+    }
+    const status = getDayStatus(habit, day, weekStart);
+    if (status === 'due') summary.missed.push(habit);
+    else summary[status].push(habit);
+  });
+
+  const due = summary.done.length + summary.missed.length;
+  summary.rate = due > 0 ? summary.done.length / due : null;
+  return summary;
+};
+
+export interface WeeklyRating {
+  start: Date; // First day of the week
+  average: number | null; // null when no day that week was rated
+  count: number;
+}
+
+// Average rating of each of the last `weeks` weeks, oldest first and the current week last
+export const getWeeklyRatings = (habit: Habit, weeks: number, weekStart: WeekStart, today: Date = new Date()): WeeklyRating[] => {
+  const options = { weekStartsOn: weekStartsOn(weekStart) };
+  const current = startOfWeek(today, options);
+  const sums = new Array(weeks).fill(0);
+  const counts = new Array(weeks).fill(0);
+
+  Object.values(habit.logs).forEach((log: DailyLog) => {
+    if (!log.rating) return;
+    const index = weeks - 1 + differenceInCalendarWeeks(parseDateKey(log.date), current, options);
+    if (index < 0 || index >= weeks) return;
+    sums[index] += log.rating;
+    counts[index]++;
+  });
+
+  return counts.map((count, i) => ({
+    start: addWeeks(current, i - weeks + 1),
+    average: count > 0 ? sums[i] / count : null,
+    count,
+  }));
+};
@@ -0,0 +1,95 @@
+import { AppData, DailyLog, Habit } from '../types';
+
+export interface BackupSummary {
+  habits: number;
+  logs: number;
+  firstDate?: string; // YYYY-MM-DD of the oldest log
+  lastDate?: string; // YYYY-MM-DD of the newest log
+}
+
+export type HabitDiffStatus = 'added' | 'removed' | 'changed' | 'same';
+
+export interface HabitDiff {
+  id: string;
+  title: string;
+  color: string;
+  status: HabitDiffStatus; // Relative to the local data: 'added' exists only in the backup
+  logsAdded: number; // Logs the backup has that local data doesn't
+  logsRemoved: number; // Local logs the backup doesn't have
+  logsChanged: number; // Same date, different content
+}
+
+export const summarizeBackup = (data: AppData): BackupSummary => {
+  let logs = 0;
+  let firstDate: string | undefined;
+  let lastDate: string | undefined;
+  data.habits.forEach(habit => {
+    Object.keys(habit.logs || {}).forEach(date => {
+      logs++;
+      if (!firstDate || date < firstDate) firstDate = date;
+      if (!lastDate || date > lastDate) lastDate = date;
+    });
+  });
+  return { habits: data.habits.length, logs, firstDate, lastDate };
+};
+
+// Content of a log that matters to the user; sync bookkeeping is ignored
+const logContent = (log: DailyLog) => JSON.stringify([log.completed, log.value, log.note, log.rating]);
+
+export const hasSameLogContent = (a: DailyLog, b: DailyLog) => logContent(a) === logContent(b);
+
+const habitMeta = (habit: Habit) => JSON.stringify([habit.title, habit.color, habit.kind, habit.target, habit.unit, habit.schedule, habit.reminders, habit.archived]);
+
+export const diffBackup = (local: AppData, backup: AppData): HabitDiff[] => {
+  const localById = new Map(local.habits.map(h => [h.id, h]));
+  const backupIds = new Set(backup.habits.map(h => h.id));
+  const diffs: HabitDiff[] = [];
+
+  backup.habits.forEach(habit => {
+    const current = localById.get(habit.id);
+    if (!current) {
+      diffs.push({ id: habit.id, title: habit.title, color: habit.color, status: 'added', logsAdded: Object.keys(habit.logs).length, logsRemoved: 0, logsChanged: 0 });
+      return;
+    }
+
+    let logsAdded = 0;
+    let logsRemoved = 0;
+    let logsChanged = 0;
+    Object.entries(habit.logs).forEach(([date, log]) => {
+      const currentLog = current.logs[date];
+      if (!currentLog) logsAdded++;
+      else if (!hasSameLogContent(currentLog, log)) logsChanged++;
+    });
+    Object.keys(current.logs).forEach(date => {
+      if (!habit.logs[date]) logsRemoved++;
+    });
+
+    const changed = logsAdded + logsRemoved + logsChanged > 0 || habitMeta(current) !== habitMeta(habit);
+    diffs.push({ id: habit.id, title: habit.title, color: habit.color, status: changed ? 'changed' : 'same', logsAdded, logsRemoved, logsChanged });
+  });
+
+  local.habits.forEach(habit => {
+    if (!backupIds.has(habit.id)) {
+      diffs.push({ id: habit.id, title: habit.title, color: habit.color, status: 'removed', logsAdded: 0, logsRemoved: Object.keys(habit.logs).length, logsChanged: 0 });
+    }
+  });
+
+  return diffs;
+};
+
+// Replace the chosen habits with their backed-up version, adding them back if they were deleted.
+// Everything else, including settings, stays as it is locally.
+export const restoreHabits = (local: AppData, backup: AppData, habitIds: string[]): AppData => {
+  const selected = new Map(backup.habits.filter(h => habitIds.includes(h.id)).map(h => [h.id, h]));
+  const habits = local.habits.map(h => selected.get(h.id) || h);
+  const localIds = new Set(local.habits.map(h => h.id));
+  selected.forEach((habit, id) => {
+    if (!localIds.has(id)) habits.push(habit);
+  });
+  return { ...local, habits };
+};
+
+// Full restore: the backup's habits replace the local ones, settings stay local
+export const restoreAll = (local: AppData, backup: AppData): AppData => {
+  return { ...local, habits: backup.habits };
+};
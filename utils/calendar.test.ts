@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { toDateKey } from './date';
+import { WeekStart } from '../types';
+import { DEFAULT_HEATMAP_RANGE, getHeatmapWeeks, getMonthGrid, resolveHeatmapRange } from './calendar';
+
+const keys = (week: (Date | null)[]) => week.map(day => day ? toDateKey(day) : null);
+
+// The default heatmap: the last 52 weeks
+const lastYear = (today: Date, weekStart: WeekStart, splitMonths = false) => {
+  const { start, end } = resolveHeatmapRange(DEFAULT_HEATMAP_RANGE, today, weekStart);
+  return getHeatmapWeeks(start, end, weekStart, splitMonths);
+};
+
+describe('test time zone', () => {
+  it('has a DST change, so the tests below cross one', () => {
+    expect(new Date(2024, 2, 10).getTimezoneOffset()).not.toBe(new Date(2024, 2, 11).getTimezoneOffset());
+  });
+});
+
+describe('getHeatmapWeeks', () => {
+  // Wednesday
+  const today = new Date(2024, 4, 15, 18, 30);
+
+  it('starts on the week start and ends today', () => {
+    const sunday = lastYear(today, 'sunday');
+    expect(sunday[0][0]?.getDay()).toBe(0);
+    expect(keys(sunday.at(-1)!)).toEqual(['2024-05-12', '2024-05-13', '2024-05-14', '2024-05-15', null, null, null]);
+
+    const monday = lastYear(today, 'monday');
+    expect(monday[0][0]?.getDay()).toBe(1);
+    expect(keys(monday.at(-1)!)).toEqual(['2024-05-13', '2024-05-14', '2024-05-15', null, null, null, null]);
+  });
+
+  it('covers at least the last 365 days, each day once', () => {
+    const days = lastYear(today, 'sunday').flat().filter((d): d is Date => d !== null).map(toDateKey);
+    expect(new Set(days).size).toBe(days.length);
+    expect(days).toContain('2023-05-17');
+    expect(days.at(-1)).toBe('2024-05-15');
+  });
+
+  it('keeps full weeks over both DST changes', () => {
+    // Every column is a whole week with a single day per weekday, 23- and 25-hour days included
+    const weeks = lastYear(new Date(2024, 11, 1), 'monday');
+    weeks.slice(0, -1).forEach(week => {
+      expect(week.every(day => day !== null)).toBe(true);
+      expect(week.map(day => day!.getDay())).toEqual([1, 2, 3, 4, 5, 6, 0]);
+    });
+    const spring = weeks.find(week => keys(week).includes('2024-03-10'));
+    expect(keys(spring!)).toEqual(['2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07', '2024-03-08', '2024-03-09', '2024-03-10']);
+    const fall = weeks.find(week => keys(week).includes('2024-11-03'));
+    expect(keys(fall!)[6]).toBe('2024-11-03');
+  });
+
+  it('splits a week that spans two months', () => {
+    const weeks = lastYear(today, 'sunday', true);
+    // 2024-05-01 is a Wednesday
+    const april = weeks.find(week => keys(week).includes('2024-04-30'));
+    const may = weeks.find(week => keys(week).includes('2024-05-01'));
+    expect(keys(april!)).toEqual(['2024-04-28', '2024-04-29', '2024-04-30', null, null, null, null]);
+    expect(keys(may!)).toEqual([null, null, null, '2024-05-01', '2024-05-02', '2024-05-03', '2024-05-04']);
+    expect(weeks.length).toBeGreaterThan(lastYear(today, 'sunday').length);
+  });
+
+  it('does not split a month that starts on the week start', () => {
+    // 2024-07-01 is a Monday
+    const weeks = lastYear(new Date(2024, 6, 10), 'monday', true);
+    const index = weeks.findIndex(week => keys(week)[0] === '2024-07-01');
+    expect(keys(weeks[index - 1])).toEqual(['2024-06-24', '2024-06-25', '2024-06-26', '2024-06-27', '2024-06-28', '2024-06-29', '2024-06-30']);
+  });
+});
+
+describe('resolveHeatmapRange', () => {
+  const today = new Date(2024, 4, 15, 18, 30);
+  const range = (...args: Parameters<typeof resolveHeatmapRange>) => {
+    const { start, end } = resolveHeatmapRange(...args);
+    return [toDateKey(start), toDateKey(end)];
+  };
+
+  it('starts the last N weeks on the week start', () => {
+    expect(range({ type: 'lastWeeks', weeks: 52 }, today, 'sunday')).toEqual(['2023-05-14', '2024-05-15']);
+    expect(range({ type: 'lastWeeks', weeks: 52 }, today, 'monday')).toEqual(['2023-05-15', '2024-05-15']);
+    expect(range({ type: 'lastWeeks', weeks: 0 }, today, 'monday')).toEqual(['2024-05-13', '2024-05-15']);
+  });
+
+  it('covers a past year in full and the current year up to today', () => {
+    expect(range({ type: 'year', year: 2023 }, today, 'monday')).toEqual(['2023-01-01', '2023-12-31']);
+    expect(range({ type: 'year', year: 2024 }, today, 'monday')).toEqual(['2024-01-01', '2024-05-15']);
+  });
+
+  it('clamps a custom range to today', () => {
+    expect(range({ type: 'custom', start: '2024-03-01', end: '2024-03-31' }, today, 'monday')).toEqual(['2024-03-01', '2024-03-31']);
+    expect(range({ type: 'custom', start: '2024-05-01', end: '2024-06-30' }, today, 'monday')).toEqual(['2024-05-01', '2024-05-15']);
+  });
+
+  it('starts at the habit\'s first day', () => {
+    expect(range({ type: 'sinceStart' }, today, 'monday', new Date(2022, 10, 3, 9, 0))).toEqual(['2022-11-03', '2024-05-15']);
+  });
+
+  it('falls back to the default for ranges with nothing to show', () => {
+    const fallback = range(DEFAULT_HEATMAP_RANGE, today, 'monday');
+    expect(range({ type: 'year', year: 2025 }, today, 'monday')).toEqual(fallback);
+    expect(range({ type: 'custom', start: '2024-04-10', end: '2024-04-01' }, today, 'monday')).toEqual(fallback);
+    expect(range({ type: 'custom', start: '2024-02-30', end: '2024-04-01' }, today, 'monday')).toEqual(fallback);
+  });
+});
+
+describe('getHeatmapWeeks for a range', () => {
+  it('leaves the slots before the first and after the last day empty', () => {
+    // 2023 starts on a Sunday and ends on a Sunday
+    const weeks = getHeatmapWeeks(new Date(2023, 0, 1), new Date(2023, 11, 31), 'monday');
+    expect(keys(weeks[0])).toEqual([null, null, null, null, null, null, '2023-01-01']);
+    expect(keys(weeks.at(-1)!)).toEqual(['2023-12-25', '2023-12-26', '2023-12-27', '2023-12-28', '2023-12-29', '2023-12-30', '2023-12-31']);
+    expect(weeks.flat().filter(day => day !== null).length).toBe(365);
+  });
+
+  it('has a single column for a one-day range', () => {
+    expect(getHeatmapWeeks(new Date(2024, 2, 10), new Date(2024, 2, 10), 'sunday').map(keys)).toEqual([['2024-03-10', null, null, null, null, null, null]]);
+  });
+});
+
+describe('getMonthGrid', () => {
+  it('fills whole weeks around the month', () => {
+    // February 2024 starts on a Thursday and ends on a Thursday
+    const sunday = getMonthGrid(new Date(2024, 1, 14), 'sunday');
+    expect(sunday.length).toBe(35);
+    expect(toDateKey(sunday[0])).toBe('2024-01-28');
+    expect(toDateKey(sunday.at(-1)!)).toBe('2024-03-02');
+
+    const monday = getMonthGrid(new Date(2024, 1, 14), 'monday');
+    expect(toDateKey(monday[0])).toBe('2024-01-29');
+    expect(toDateKey(monday.at(-1)!)).toBe('2024-03-03');
+  });
+
+  it('depends on the week start for how many rows a month needs', () => {
+    // June 2024 runs from a Saturday to a Sunday
+    expect(getMonthGrid(new Date(2024, 5, 1), 'sunday').length).toBe(42);
+    expect(getMonthGrid(new Date(2024, 5, 1), 'monday').length).toBe(35);
+  });
+
+  it('has one cell per day in DST months', () => {
+    const march = getMonthGrid(new Date(2024, 2, 31, 23, 0), 'monday').map(toDateKey);
+    expect(new Set(march).size).toBe(march.length);
+    expect(march.length % 7).toBe(0);
+    expect(march.filter(key => key.startsWith('2024-03')).length).toBe(31);
+    const november = getMonthGrid(new Date(2024, 10, 3, 1, 30), 'sunday').map(toDateKey);
+    expect(november.filter(key => key.startsWith('2024-11')).length).toBe(30);
+  });
+});
@@ -0,0 +1,82 @@
+import { addWeeks, eachDayOfInterval, endOfMonth, endOfWeek, isAfter, isSameMonth, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import { HeatmapRange, WeekStart } from '../types';
+import { isValidDateKey, parseDateKey } from './date';
+
+// Grid layouts for the heatmap and the calendar, kept apart from the components so the date math
+// can be tested on its own.
+
+// 0 = Sunday, 1 = Monday
+export const weekStartsOn = (weekStart: WeekStart): 0 | 1 => weekStart === 'monday' ? 1 : 0;
+
+export const DEFAULT_HEATMAP_RANGE: HeatmapRange = { type: 'lastWeeks', weeks: 52 };
+
+// The first and last day a range covers as of `today`. `habitStart` is where 'sinceStart' begins.
+// A range with nothing up to today (a future year, an inverted custom range) falls back to the default.
+export const resolveHeatmapRange = (range: HeatmapRange, today: Date, weekStart: WeekStart, habitStart?: Date): { start: Date; end: Date } => {
+  const end = startOfDay(today);
+  switch (range.type) {
+    case 'lastWeeks':
+      return { start: startOfWeek(addWeeks(end, -Math.max(0, range.weeks)), { weekStartsOn: weekStartsOn(weekStart) }), end };
+    case 'year': {
+      const start = new Date(range.year, 0, 1);
+      const yearEnd = new Date(range.year, 11, 31);
+      if (isAfter(start, end)) break;
+      return { start, end: isAfter(yearEnd, end) ? end : yearEnd };
+    }
+    case 'custom': {
+      if (!isValidDateKey(range.start) || !isValidDateKey(range.end)) break;
+      const start = parseDateKey(range.start);
+      const customEnd = parseDateKey(range.end);
+      const clampedEnd = isAfter(customEnd, end) ? end : customEnd;
+      if (isAfter(start, clampedEnd)) break;
+      return { start, end: clampedEnd };
+    }
+    case 'sinceStart': {
+      const start = habitStart ? startOfDay(habitStart) : end;
+      return { start: isAfter(start, end) ? end : start, end };
+    }
+  }
+  return resolveHeatmapRange(DEFAULT_HEATMAP_RANGE, today, weekStart);
+};
+
+// Heatmap columns from `start` to `end`: one array of 7 days per week, ordered from the week start.
+// Slots before `start` and after `end` are null. With `splitMonths` a week that spans two months
+// is split into two columns, and the slots that belong to the other month are null.
+export const getHeatmapWeeks = (start: Date, end: Date, weekStart: WeekStart, splitMonths = false): (Date | null)[][] => {
+  const firstDay = weekStartsOn(weekStart);
+  const days = eachDayOfInterval({ start: startOfDay(start), end: startOfDay(end) });
+
+  const weeks: (Date | null)[][] = [];
+  let currentWeek: (Date | null)[] = new Array(7).fill(null);
+  let lastProcessedDay: Date | null = null;
+
+  days.forEach((day) => {
+    // Position within the week (0-6)
+    const dayOfWeek = day.getDay();
+    const weekIndex = (dayOfWeek < firstDay ? 7 : 0) + dayOfWeek - firstDay;
+
+    const isMonthChange = splitMonths && lastProcessedDay && !isSameMonth(lastProcessedDay, day);
+    if (isMonthChange || (weekIndex === 0 && lastProcessedDay)) {
+      // Push the current week (even if incomplete) and start a new one
+      weeks.push(currentWeek);
+      currentWeek = new Array(7).fill(null);
+    }
+
+    currentWeek[weekIndex] = day;
+    lastProcessedDay = day;
+  });
+
+  // Final partial week
+  if (currentWeek.some(d => d !== null)) weeks.push(currentWeek);
+  return weeks;
+};
+
+// Days shown for a month in the calendar: whole weeks from the one containing the 1st
+// to the one containing the last day, so the count is always a multiple of 7
+export const getMonthGrid = (month: Date, weekStart: WeekStart): Date[] => {
+  const options = { weekStartsOn: weekStartsOn(weekStart) };
+  return eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), options),
+    end: endOfWeek(endOfMonth(month), options),
+  });
+};
@@ -0,0 +1,111 @@
+// Client-side encryption for backups: PBKDF2-SHA256 derives an AES-GCM key from the user's passphrase.
+// Encrypted files are a small JSON envelope whose header records the format version and the KDF/cipher
+// parameters, so older files stay readable if the defaults change.
+
+export const ENCRYPTED_FORMAT = 'habitpulse-encrypted';
+export const ENCRYPTED_VERSION = 1;
+export const ENCRYPTED_EXTENSION = '.hpenc';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+interface EncryptedEnvelope {
+  format: typeof ENCRYPTED_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+// 'missing': the data is encrypted and no passphrase was given; 'incorrect': decryption failed
+export class PassphraseError extends Error {
+  constructor(public reason: 'missing' | 'incorrect') {
+    super(reason === 'missing' ? 'A passphrase is required to read encrypted data' : 'Incorrect passphrase');
+    this.name = 'PassphraseError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): ArrayBuffer => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+const deriveKey = async (passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const parseEnvelope = (text: string): EncryptedEnvelope | null => {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && parsed.format === ENCRYPTED_FORMAT ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isEncryptedPayload = (text: string): boolean => parseEnvelope(text) !== null;
+
+export const encryptText = async (plaintext: string, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+  const envelope: EncryptedEnvelope = {
+    format: ENCRYPTED_FORMAT,
+    version: ENCRYPTED_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(envelope);
+};
+
+export const decryptText = async (payload: string, passphrase?: string): Promise<string> => {
+  const envelope = parseEnvelope(payload);
+  if (!envelope) throw new Error('Not an encrypted payload');
+  if (envelope.version > ENCRYPTED_VERSION) {
+    throw new Error(`Unsupported encryption version ${envelope.version}`);
+  }
+  if (!passphrase) throw new PassphraseError('missing');
+
+  const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) },
+      key,
+      fromBase64(envelope.data)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // GCM authentication fails for a wrong key as well as for tampered data
+    throw new PassphraseError('incorrect');
+  }
+};
+
+// The passphrase lives in memory for this session only and is never written to storage
+let sessionPassphrase: string | undefined;
+
+export const getSessionPassphrase = () => sessionPassphrase;
+
+export const setSessionPassphrase = (passphrase: string | undefined) => {
+  sessionPassphrase = passphrase || undefined;
+};
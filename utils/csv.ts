@@ -0,0 +1,221 @@
+import { AppData, DailyLog, Habit, HABIT_COLORS, Rating } from '../types';
+import { isValidDateKey, toDateKey } from './date';
+import { ValidationIssue, ValidationIssueCode } from './validation';
+import { generateId } from './habits';
+
+// --- Generic CSV (RFC 4180: comma separated, quotes doubled inside quoted cells) ---
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Blank lines carry no data
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+const escapeCell = (value: string | number | boolean | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number | boolean | undefined)[][]): string => {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+};
+
+// --- HabitPulse logs as CSV, one row per DailyLog ---
+
+export const CSV_FIELDS = ['habit_title', 'habit_id', 'date', 'completed', 'value', 'note', 'rating', 'timestamp'] as const;
+export type CsvField = typeof CSV_FIELDS[number];
+
+// Which column index feeds each field; undefined when the file has no such column
+export type CsvMapping = Partial<Record<CsvField, number>>;
+
+export const habitsToCsv = (data: AppData): string => {
+  const rows: (string | number | boolean | undefined)[][] = [[...CSV_FIELDS]];
+  data.habits.forEach(habit => {
+    Object.keys(habit.logs).sort().forEach(date => {
+      const log = habit.logs[date];
+      rows.push([habit.title, habit.id, date, log.completed, log.value, log.note, log.rating, log.timestamp]);
+    });
+  });
+  // The BOM lets spreadsheet apps detect UTF-8, so non-ASCII titles and notes survive
+  return '\uFEFF' + toCsv(rows);
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  habit_title: ['habit_title', 'habit', 'title', 'name', 'habit_name'],
+  habit_id: ['habit_id', 'id'],
+  date: ['date', 'day'],
+  completed: ['completed', 'done', 'complete', 'status'],
+  value: ['value', 'amount', 'count'],
+  note: ['note', 'notes', 'comment'],
+  rating: ['rating', 'mood'],
+  timestamp: ['timestamp', 'time', 'completed_at'],
+};
+
+export const guessCsvMapping = (headers: string[]): CsvMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: CsvMapping = {};
+  CSV_FIELDS.forEach(field => {
+    const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+};
+
+const TRUE_VALUES = ['true', '1', 'yes', 'y', 'x', '✓', 'done'];
+const FALSE_VALUES = ['false', '0', 'no', 'n', ''];
+
+// YYYY-MM-DD, YYYY/MM/DD, "YYYY-MM-DD HH:mm" or a full ISO date-time (read as its local calendar day)
+const parseCsvDate = (value: string): string | null => {
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2} \d{1,2}:\d{2}/.test(text)) return isValidDateKey(text.slice(0, 10)) ? text.slice(0, 10) : null;
+  const simple = text.replace(/\//g, '-').replace(/^(\d{4})-(\d{1,2})-(\d{1,2})$/, (_, y, m, d) => `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`);
+  if (isValidDateKey(simple)) return simple;
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text) && !isNaN(Date.parse(text))) return toDateKey(new Date(text));
+  return null;
+};
+
+export interface CsvImportResult {
+  data: AppData; // Only the habits and logs from the file, ready to be merged
+  issues: ValidationIssue[]; // Rejected rows
+  rowCount: number;
+}
+
+// Turn CSV rows (without the header) into habits and logs. Rows name their habit by id or title;
+// habits that aren't known locally are created. Every rejected row is reported with its line number.
+export const csvToAppData = (rows: string[][], mapping: CsvMapping, local: AppData): CsvImportResult => {
+  const issues: ValidationIssue[] = [];
+  const habits = new Map<string, Habit>();
+  const localById = new Map(local.habits.map(h => [h.id, h]));
+  const localByTitle = new Map(local.habits.map(h => [h.title.trim().toLowerCase(), h]));
+  const titleToId = new Map<string, string>();
+
+  const cell = (row: string[], field: CsvField) => {
+    const index = mapping[field];
+    return index === undefined ? undefined : (row[index] ?? '').trim();
+  };
+
+  rows.forEach((row, i) => {
+    const line = i + 2; // 1-based, after the header
+    const reject = (field: CsvField, code: ValidationIssueCode, expected?: string) => {
+      issues.push({ path: `row ${line} (${field})`, code, effect: 'log', expected });
+    };
+
+    const title = cell(row, 'habit_title');
+    const id = cell(row, 'habit_id');
+    if (!title && !id) return reject('habit_title', 'missing');
+
+    const rawDate = cell(row, 'date');
+    if (!rawDate) return reject('date', 'missing');
+    const date = parseCsvDate(rawDate);
+    if (!date) return reject('date', 'badDate');
+
+    // Without a completed column a row's presence means the habit was done
+    const rawCompleted = cell(row, 'completed');
+    let completed = true;
+    if (rawCompleted !== undefined) {
+      const normalized = rawCompleted.toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) completed = true;
+      else if (FALSE_VALUES.includes(normalized)) completed = false;
+      else return reject('completed', 'wrongType', 'true/false');
+    }
+
+    const log: DailyLog = { date, completed };
+    const rawValue = cell(row, 'value');
+    if (rawValue) {
+      const value = Number(rawValue);
+      if (!isFinite(value)) return reject('value', 'wrongType', 'number');
+      if (value < 0) return reject('value', 'outOfRange');
+      log.value = value;
+    }
+    const note = cell(row, 'note');
+    if (note) log.note = note;
+    const rawRating = cell(row, 'rating');
+    if (rawRating) {
+      const rating = Number(rawRating);
+      if (![1, 2, 3, 4, 5].includes(rating)) return reject('rating', 'outOfRange');
+      log.rating = rating as Rating;
+    }
+    const timestamp = cell(row, 'timestamp');
+    if (timestamp) {
+      if (isNaN(Date.parse(timestamp))) return reject('timestamp', 'badTimestamp');
+      log.timestamp = new Date(timestamp).toISOString();
+    }
+
+    // Find the habit: a known id first, then a title seen in this file or locally, else a new habit
+    const titleKey = title?.toLowerCase();
+    const habitId = (id && (localById.has(id) || habits.has(id)) ? id : undefined)
+      || (titleKey && (titleToId.get(titleKey) || localByTitle.get(titleKey)?.id))
+      || id
+      || generateId();
+    let habit = habits.get(habitId);
+    if (!habit) {
+      const existing = localById.get(habitId);
+      habit = existing
+        ? { ...existing, logs: {} }
+        : {
+          id: habitId,
+          title: title || habitId,
+          color: HABIT_COLORS[(habits.size + local.habits.length) % HABIT_COLORS.length].value,
+          createdAt: new Date().toISOString(),
+          logs: {},
+          archived: false,
+        };
+      habits.set(habitId, habit);
+    }
+    if (titleKey) titleToId.set(titleKey, habitId);
+
+    if (habit.logs[date]) return reject('date', 'duplicateRow');
+    habit.logs[date] = log;
+  });
+
+  // New habits start on their first logged day
+  habits.forEach(habit => {
+    if (localById.has(habit.id)) return;
+    const firstDate = Object.keys(habit.logs).sort()[0];
+    if (firstDate) habit.createdAt = new Date(`${firstDate}T00:00:00`).toISOString();
+  });
+
+  return {
+    data: { schemaVersion: local.schemaVersion, habits: Array.from(habits.values()), settings: local.settings },
+    issues,
+    rowCount: rows.length,
+  };
+};
@@ -0,0 +1,24 @@
+import { eachDayOfInterval, format, isAfter } from 'date-fns';
+
+// Logs are keyed by local calendar day, YYYY-MM-DD
+export const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Parse a YYYY-MM-DD key as a local date (new Date('yyyy-MM-dd') would be UTC midnight)
+export const parseDateKey = (key: string): Date => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// Every day key from one date to another, in either order
+export const getDateKeysBetween = (from: Date, to: Date): string[] => {
+  const [start, end] = isAfter(from, to) ? [to, from] : [from, to];
+  return eachDayOfInterval({ start, end }).map(toDateKey);
+};
+
+// A well-formed key for a real calendar day, e.g. rejects 2024-02-30
+export const isValidDateKey = (key: string): boolean => {
+  return /^\d{4}-\d{2}-\d{2}$/.test(key) && toDateKey(parseDateKey(key)) === key;
+};
+
+// A 24-hour HH:mm time of day, as produced by <input type="time">
+export const isValidTime = (time: string): boolean => /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
@@ -0,0 +1,11 @@
+// Save generated content as a file through a temporary link
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor); // required for firefox
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
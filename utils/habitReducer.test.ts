@@ -0,0 +1,235 @@
+import { describe, expect, it } from 'vitest';
+import { AppData, Habit } from '../types';
+import { completesLog, countChangedLogs, habitReducer, withoutCompletion } from './habitReducer';
+import { makeHabit } from './testing';
+
+const NOW = '2024-03-10T08:00:00.000Z';
+const LATER = '2024-03-10T20:00:00.000Z';
+
+const habit = (overrides: Partial<Habit> = {}) => makeHabit([], overrides);
+
+const measurable = (overrides: Partial<Habit> = {}) => habit({ kind: 'measurable', target: 10, unit: 'pages', ...overrides });
+
+const state = (...habits: Habit[]): AppData => ({
+  schemaVersion: 2,
+  habits,
+  settings: { theme: 'system', userName: 'User', language: 'en', weekStart: 'monday' },
+});
+
+const logOf = (data: AppData, date: string, id = 'h1') => data.habits.find(h => h.id === id)?.logs[date];
+
+describe('withoutCompletion', () => {
+  it('keeps a log with a note as not completed', () => {
+    expect(withoutCompletion({ date: '2024-03-10', completed: true, note: 'tired' })).toEqual({ date: '2024-03-10', completed: false, note: 'tired' });
+  });
+
+  it('drops a log without a note', () => {
+    expect(withoutCompletion({ date: '2024-03-10', completed: true })).toBeUndefined();
+  });
+});
+
+describe('toggleLog', () => {
+  it('checks in with the given time', () => {
+    const next = habitReducer(state(habit()), { type: 'toggleLog', habitId: 'h1', date: '2024-03-10', now: NOW });
+    expect(logOf(next, '2024-03-10')).toEqual({ date: '2024-03-10', completed: true, timestamp: NOW });
+  });
+
+  it('keeps an existing note over the one passed in', () => {
+    const data = state(habit({ logs: { '2024-03-10': { date: '2024-03-10', completed: false, note: 'old' } } }));
+    const next = habitReducer(data, { type: 'toggleLog', habitId: 'h1', date: '2024-03-10', now: NOW, note: 'new' });
+    expect(logOf(next, '2024-03-10')?.note).toBe('old');
+  });
+
+  it('fills the target of a measurable habit', () => {
+    const data = state(measurable({ logs: { '2024-03-10': { date: '2024-03-10', completed: false, value: 4 } } }));
+    const next = habitReducer(data, { type: 'toggleLog', habitId: 'h1', date: '2024-03-10', now: NOW });
+    expect(logOf(next, '2024-03-10')).toMatchObject({ completed: true, value: 10 });
+  });
+
+  it('removes a check-in without a note and keeps one with a note', () => {
+    const data = state(
+      habit({ logs: { '2024-03-10': { date: '2024-03-10', completed: true } } }),
+      habit({ id: 'h2', logs: { '2024-03-10': { date: '2024-03-10', completed: true, note: 'keep' } } }),
+    );
+    let next = habitReducer(data, { type: 'toggleLog', habitId: 'h1', date: '2024-03-10', now: NOW });
+    next = habitReducer(next, { type: 'toggleLog', habitId: 'h2', date: '2024-03-10', now: NOW });
+    expect(logOf(next, '2024-03-10')).toBeUndefined();
+    expect(logOf(next, '2024-03-10', 'h2')).toMatchObject({ completed: false, note: 'keep' });
+  });
+});
+
+describe('values', () => {
+  it('completes once the amount reaches the target and keeps the first completion time', () => {
+    let data = habitReducer(state(measurable()), { type: 'adjustValue', habitId: 'h1', date: '2024-03-10', delta: 6, now: NOW });
+    expect(logOf(data, '2024-03-10')).toMatchObject({ value: 6, completed: false });
+    data = habitReducer(data, { type: 'adjustValue', habitId: 'h1', date: '2024-03-10', delta: 6, now: NOW });
+    data = habitReducer(data, { type: 'adjustValue', habitId: 'h1', date: '2024-03-10', delta: 1, now: LATER });
+    expect(logOf(data, '2024-03-10')).toMatchObject({ value: 13, completed: true, timestamp: NOW });
+  });
+
+  it('drops the log when the amount goes back to zero without a note', () => {
+    const data = state(measurable({ logs: { '2024-03-10': { date: '2024-03-10', completed: false, value: 2 } } }));
+    const next = habitReducer(data, { type: 'adjustValue', habitId: 'h1', date: '2024-03-10', delta: -5, now: NOW });
+    expect(logOf(next, '2024-03-10')).toBeUndefined();
+  });
+
+  it('ignores amounts for check habits', () => {
+    const data = state(habit());
+    expect(habitReducer(data, { type: 'setValue', habitId: 'h1', date: '2024-03-10', value: 3, now: NOW })).toBe(data);
+  });
+});
+
+describe('setRating', () => {
+  it('rates a day without checking it in', () => {
+    const next = habitReducer(state(habit()), { type: 'setRating', habitId: 'h1', date: '2024-03-10', rating: 4 });
+    expect(logOf(next, '2024-03-10')).toEqual({ date: '2024-03-10', completed: false, rating: 4 });
+  });
+
+  it('keeps the rest of the log when the rating is cleared', () => {
+    const data = state(
+      habit({ logs: { '2024-03-10': { date: '2024-03-10', completed: true, rating: 2 } } }),
+      habit({ id: 'h2', logs: { '2024-03-10': { date: '2024-03-10', completed: false, rating: 2 } } }),
+    );
+    let next = habitReducer(data, { type: 'setRating', habitId: 'h1', date: '2024-03-10' });
+    next = habitReducer(next, { type: 'setRating', habitId: 'h2', date: '2024-03-10' });
+    expect(logOf(next, '2024-03-10')).toEqual({ date: '2024-03-10', completed: true, rating: undefined });
+    expect(logOf(next, '2024-03-10', 'h2')).toBeUndefined();
+  });
+
+  it('keeps a rated day when its check-in is undone', () => {
+    const data = state(habit({ logs: { '2024-03-10': { date: '2024-03-10', completed: true, rating: 5 } } }));
+    const next = habitReducer(data, { type: 'toggleLog', habitId: 'h1', date: '2024-03-10', now: NOW });
+    expect(logOf(next, '2024-03-10')).toEqual({ date: '2024-03-10', completed: false, rating: 5 });
+  });
+
+  it('returns the same state when the rating is unchanged', () => {
+    const data = state(habit({ logs: { '2024-03-10': { date: '2024-03-10', completed: true, rating: 3 } } }));
+    expect(habitReducer(data, { type: 'setRating', habitId: 'h1', date: '2024-03-10', rating: 3 })).toBe(data);
+    expect(habitReducer(data, { type: 'setRating', habitId: 'h1', date: '2024-03-11' })).toBe(data);
+  });
+});
+
+describe('setDayCompletions', () => {
+  it('checks in and undoes several habits at once, leaving the others alone', () => {
+    const untouched = habit({ id: 'h3' });
+    const data = state(habit(), measurable({ id: 'h2', logs: { '2024-03-10': { date: '2024-03-10', completed: true, value: 10 } } }), untouched);
+    const next = habitReducer(data, { type: 'setDayCompletions', date: '2024-03-10', completed: { h1: true, h2: false }, now: NOW });
+    expect(logOf(next, '2024-03-10')).toEqual({ date: '2024-03-10', completed: true, timestamp: NOW });
+    expect(logOf(next, '2024-03-10', 'h2')).toBeUndefined();
+    expect(next.habits[2]).toBe(untouched);
+  });
+
+  it('returns the same state when every habit is already as asked', () => {
+    const data = state(habit({ logs: { '2024-03-10': { date: '2024-03-10', completed: true } } }), habit({ id: 'h2' }));
+    expect(habitReducer(data, { type: 'setDayCompletions', date: '2024-03-10', completed: { h1: true, h2: false, nope: true }, now: NOW })).toBe(data);
+  });
+});
+
+describe('bulkEdit', () => {
+  const dates = ['2024-03-08', '2024-03-09', '2024-03-10'];
+
+  it('checks in every day and habit, keeping days that were already done', () => {
+    const data = state(habit({ logs: { '2024-03-09': { date: '2024-03-09', completed: true, timestamp: LATER } } }), measurable({ id: 'h2' }));
+    const next = habitReducer(data, { type: 'bulkEdit', habitIds: ['h1', 'h2'], dates, edit: { type: 'complete' }, now: NOW });
+    expect(logOf(next, '2024-03-09')?.timestamp).toBe(LATER);
+    expect(logOf(next, '2024-03-08')).toEqual({ date: '2024-03-08', completed: true, timestamp: NOW });
+    expect(logOf(next, '2024-03-10', 'h2')).toMatchObject({ completed: true, value: 10 });
+    expect(countChangedLogs(data, next)).toBe(5);
+  });
+
+  it('clears check-ins but keeps their notes', () => {
+    const data = state(habit({ logs: {
+      '2024-03-08': { date: '2024-03-08', completed: true },
+      '2024-03-09': { date: '2024-03-09', completed: true, note: 'keep' },
+    } }));
+    const next = habitReducer(data, { type: 'bulkEdit', habitIds: ['h1'], dates, edit: { type: 'uncomplete' }, now: NOW });
+    expect(next.habits[0].logs).toEqual({ '2024-03-09': { date: '2024-03-09', completed: false, note: 'keep' } });
+  });
+
+  it('sets amounts only on measurable habits', () => {
+    const check = habit();
+    const data = state(check, measurable({ id: 'h2' }));
+    const next = habitReducer(data, { type: 'bulkEdit', habitIds: ['h1', 'h2'], dates, edit: { type: 'setValue', value: 4 }, now: NOW });
+    expect(next.habits[0]).toBe(check);
+    expect(logOf(next, '2024-03-08', 'h2')).toMatchObject({ completed: false, value: 4 });
+    expect(countChangedLogs(data, next)).toBe(3);
+  });
+
+  it('leaves out days before the habit started', () => {
+    const next = habitReducer(state(habit({ createdAt: '2024-03-09T12:00:00.000Z' })), { type: 'bulkEdit', habitIds: ['h1'], dates, edit: { type: 'complete' }, now: NOW });
+    expect(Object.keys(next.habits[0].logs)).toEqual(['2024-03-09', '2024-03-10']);
+  });
+
+  it('returns the same state when nothing changes', () => {
+    const data = state(habit(), habit({ id: 'h2' }));
+    expect(habitReducer(data, { type: 'bulkEdit', habitIds: ['h1', 'h2'], dates, edit: { type: 'uncomplete' }, now: NOW })).toBe(data);
+    expect(habitReducer(data, { type: 'bulkEdit', habitIds: ['h1'], dates, edit: { type: 'setNote', note: ' ' }, now: NOW })).toBe(data);
+  });
+});
+
+describe('saveNote', () => {
+  it('counts a note on a check habit as a check-in', () => {
+    const next = habitReducer(state(habit()), { type: 'saveNote', habitId: 'h1', date: '2024-03-10', note: ' felt good ', now: NOW });
+    expect(logOf(next, '2024-03-10')).toEqual({ date: '2024-03-10', completed: true, note: 'felt good', timestamp: NOW });
+  });
+
+  it('does not complete a measurable habit', () => {
+    const next = habitReducer(state(measurable()), { type: 'saveNote', habitId: 'h1', date: '2024-03-10', note: 'busy day', now: NOW });
+    expect(logOf(next, '2024-03-10')).toMatchObject({ completed: false, note: 'busy day' });
+  });
+
+  it('leaves nothing for an empty note on an unchecked day', () => {
+    const data = state(habit({ logs: { '2024-03-10': { date: '2024-03-10', completed: false, note: 'old' } } }));
+    const next = habitReducer(data, { type: 'saveNote', habitId: 'h1', date: '2024-03-10', note: '  ', now: NOW });
+    expect(logOf(next, '2024-03-10')).toBeUndefined();
+    expect(habitReducer(state(habit()), { type: 'saveNote', habitId: 'h1', date: '2024-03-10', note: '', now: NOW }).habits[0].logs).toEqual({});
+  });
+
+  it('returns the same state when the note is unchanged', () => {
+    const data = state(habit({ logs: { '2024-03-10': { date: '2024-03-10', completed: true, note: 'same' } } }));
+    expect(habitReducer(data, { type: 'saveNote', habitId: 'h1', date: '2024-03-10', note: 'same', now: NOW })).toBe(data);
+  });
+});
+
+describe('habits', () => {
+  it('re-derives completion when the target changes', () => {
+    const data = state(measurable({ logs: { '2024-03-10': { date: '2024-03-10', completed: true, value: 10 } } }));
+    const next = habitReducer(data, { type: 'updateHabit', habitId: 'h1', changes: { target: 20 } });
+    expect(logOf(next, '2024-03-10')?.completed).toBe(false);
+  });
+
+  it('keeps the logs whose completion does not change', () => {
+    const kept = { date: '2024-03-11', completed: true, value: 25 };
+    const data = state(measurable({ logs: { '2024-03-10': { date: '2024-03-10', completed: true, value: 10 }, '2024-03-11': kept } }));
+    expect(habitReducer(data, { type: 'updateHabit', habitId: 'h1', changes: { title: 'Pages' } }).habits[0].logs).toBe(data.habits[0].logs);
+    expect(logOf(habitReducer(data, { type: 'updateHabit', habitId: 'h1', changes: { target: 20 } }), '2024-03-11')).toBe(kept);
+  });
+
+  it('adds, archives and deletes habits without touching the others', () => {
+    const other = habit({ id: 'h2' });
+    let data = habitReducer(state(other), { type: 'addHabit', habit: habit() });
+    expect(data.habits.map(h => h.id)).toEqual(['h2', 'h1']);
+    data = habitReducer(data, { type: 'setArchived', habitId: 'h1', archived: true });
+    expect(data.habits[1].archived).toBe(true);
+    data = habitReducer(data, { type: 'deleteHabit', habitId: 'h1' });
+    expect(data.habits).toEqual([other]);
+    expect(data.habits[0]).toBe(other);
+  });
+
+  it('returns the same state for an unknown habit', () => {
+    const data = state(habit());
+    expect(habitReducer(data, { type: 'deleteLog', habitId: 'nope', date: '2024-03-10' })).toBe(data);
+    expect(habitReducer(data, { type: 'deleteHabit', habitId: 'nope' })).toBe(data);
+  });
+});
+
+describe('completesLog', () => {
+  it('is true only when a day becomes completed', () => {
+    const data = state(measurable({ logs: { '2024-03-10': { date: '2024-03-10', completed: false, value: 8 } } }));
+    expect(completesLog(data, { type: 'adjustValue', habitId: 'h1', date: '2024-03-10', delta: 1, now: NOW })).toBe(false);
+    expect(completesLog(data, { type: 'adjustValue', habitId: 'h1', date: '2024-03-10', delta: 2, now: NOW })).toBe(true);
+    expect(completesLog(data, { type: 'updateSettings', changes: { theme: 'dark' } })).toBe(false);
+    expect(completesLog(data, { type: 'setDayCompletions', date: '2024-03-10', completed: { h1: false }, now: NOW })).toBe(false);
+    expect(completesLog(data, { type: 'setDayCompletions', date: '2024-03-10', completed: { h1: true }, now: NOW })).toBe(true);
+  });
+});
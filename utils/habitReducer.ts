@@ -0,0 +1,204 @@
+import { AppData, DailyLog, Habit, Rating } from '../types';
+import { getHabitStartDate, isMeasurable, recomputeMeasurableLogs, withLogValue } from './habits';
+import { toDateKey } from './date';
+
+// The rules for changing habits and logs, as a pure reducer over AppData. No React, no clock: times
+// are passed in with the actions, so the same logic runs in the app, in scripts and in tests.
+
+export type HabitChanges = Partial<Pick<Habit, 'title' | 'description' | 'color' | 'kind' | 'target' | 'unit' | 'schedule' | 'reminders'>>;
+
+// One change applied to many days in the bulk editor. Each day follows the same rules as the
+// single-day action: a set amount only applies to measurable habits, a note on a check habit checks it in.
+export type BulkEdit =
+  | { type: 'complete' }
+  | { type: 'uncomplete' }
+  | { type: 'setValue'; value: number }
+  | { type: 'setNote'; note: string };
+
+export type HabitAction =
+  // Check in or undo a check-in; checking in keeps the day's note and fills a measurable habit's target
+  | { type: 'toggleLog'; habitId: string; date: string; now: string; note?: string }
+  // Add to (or subtract from) a measurable habit's amount
+  | { type: 'adjustValue'; habitId: string; date: string; delta: number; now: string }
+  | { type: 'setValue'; habitId: string; date: string; value: number; now: string }
+  // A note on a check habit counts as a check-in; an empty note on an unchecked day leaves nothing
+  | { type: 'saveNote'; habitId: string; date: string; note: string; now: string }
+  // Rate a day 1-5, or clear its rating with undefined; completion is left as it is
+  | { type: 'setRating'; habitId: string; date: string; rating?: Rating }
+  // Check in or undo several habits on one day in a single step, e.g. from the day summary
+  | { type: 'setDayCompletions'; date: string; completed: Record<string, boolean>; now: string }
+  | { type: 'bulkEdit'; habitIds: string[]; dates: string[]; edit: BulkEdit; now: string }
+  | { type: 'deleteLog'; habitId: string; date: string }
+  | { type: 'addHabit'; habit: Habit }
+  // A changed target re-derives completion of the logged amounts
+  | { type: 'updateHabit'; habitId: string; changes: HabitChanges }
+  | { type: 'setArchived'; habitId: string; archived: boolean }
+  | { type: 'deleteHabit'; habitId: string }
+  | { type: 'updateSettings'; changes: Partial<AppData['settings']> }
+  | { type: 'replaceData'; data: AppData };
+
+// An un-checked day only stays if it has a note or rating worth keeping
+export const withoutCompletion = (log: DailyLog): DailyLog | undefined => {
+  return log.note || log.rating ? { ...log, completed: false } : undefined;
+};
+
+// Writes each date's new log (undefined removes it) into a single copy of the logs. A log that is
+// returned unchanged leaves the habit as it was.
+const setLogs = (habit: Habit, updates: [string, DailyLog | undefined][]): Habit => {
+  const changed = updates.filter(([date, log]) => log !== habit.logs[date]);
+  if (changed.length === 0) return habit;
+  const logs = { ...habit.logs };
+  changed.forEach(([date, log]) => {
+    if (log) logs[date] = log;
+    else delete logs[date];
+  });
+  return { ...habit, logs };
+};
+
+const setLog = (habit: Habit, date: string, log: DailyLog | undefined): Habit => setLogs(habit, [[date, log]]);
+
+// The helpers below return a day's new log, or the existing one when nothing changes
+
+const toggledLog = (habit: Habit, date: string, now: string, note?: string): DailyLog | undefined => {
+  const existing = habit.logs[date];
+  if (existing?.completed) return withoutCompletion(existing);
+  return {
+    ...existing,
+    date,
+    completed: true,
+    timestamp: now,
+    note: existing?.note || note || undefined,
+    ...(isMeasurable(habit) ? { value: Math.max(existing?.value ?? 0, habit.target!) } : {}),
+  };
+};
+
+const notedLog = (habit: Habit, date: string, rawNote: string, now: string): DailyLog | undefined => {
+  const note = rawNote.trim() || undefined;
+  const existing = habit.logs[date];
+  if (existing?.note === note) return existing;
+  if (!note && !existing?.completed) {
+    // Clearing the note of an unchecked day: only a logged amount or a rating is left worth keeping
+    return existing?.value || existing?.rating ? { ...existing, note: undefined } : undefined;
+  }
+  return {
+    ...existing,
+    date,
+    note,
+    // Measurable habits only complete by reaching their target
+    completed: isMeasurable(habit) ? !!existing?.completed : !!existing?.completed || !!note,
+    timestamp: existing?.timestamp || now,
+  };
+};
+
+const valuedLog = (habit: Habit, date: string, value: number, now: string): DailyLog | undefined => {
+  const existing = habit.logs[date];
+  if (!isMeasurable(habit) || (existing?.value ?? 0) === value) return existing;
+  return withLogValue(habit, date, existing, value, now);
+};
+
+const toggleLog = (habit: Habit, date: string, now: string, note?: string): Habit => setLog(habit, date, toggledLog(habit, date, now, note));
+const saveNote = (habit: Habit, date: string, note: string, now: string): Habit => setLog(habit, date, notedLog(habit, date, note, now));
+const setValue = (habit: Habit, date: string, value: number, now: string): Habit => setLog(habit, date, valuedLog(habit, date, value, now));
+
+const setRating = (habit: Habit, date: string, rating: Rating | undefined): Habit => {
+  const existing = habit.logs[date];
+  if (existing?.rating === rating) return habit;
+  if (rating) return setLog(habit, date, { ...existing, date, completed: !!existing?.completed, rating });
+  if (!existing) return habit;
+  // Without its rating, a log with nothing else in it goes
+  return setLog(habit, date, existing.completed || existing.note || existing.value ? { ...existing, rating: undefined } : undefined);
+};
+
+const bulkEditedLog = (habit: Habit, date: string, edit: BulkEdit, now: string): DailyLog | undefined => {
+  const existing = habit.logs[date];
+  switch (edit.type) {
+    case 'complete':
+      return existing?.completed ? existing : toggledLog(habit, date, now);
+    case 'uncomplete':
+      return existing?.completed ? withoutCompletion(existing) : existing;
+    case 'setValue':
+      return valuedLog(habit, date, edit.value, now);
+    case 'setNote':
+      return notedLog(habit, date, edit.note, now);
+  }
+};
+
+const updateHabit = (state: AppData, habitId: string, update: (habit: Habit) => Habit): AppData => {
+  let changed = false;
+  const habits = state.habits.map(h => {
+    if (h.id !== habitId) return h;
+    const updated = update(h);
+    changed = changed || updated !== h;
+    return updated;
+  });
+  return changed ? { ...state, habits } : state;
+};
+
+// Returns `state` itself when an action changes nothing
+export const habitReducer = (state: AppData, action: HabitAction): AppData => {
+  switch (action.type) {
+    case 'toggleLog':
+      return updateHabit(state, action.habitId, h => toggleLog(h, action.date, action.now, action.note));
+    case 'adjustValue':
+      return updateHabit(state, action.habitId, h => setValue(h, action.date, (h.logs[action.date]?.value ?? 0) + action.delta, action.now));
+    case 'setValue':
+      return updateHabit(state, action.habitId, h => setValue(h, action.date, action.value, action.now));
+    case 'saveNote':
+      return updateHabit(state, action.habitId, h => saveNote(h, action.date, action.note, action.now));
+    case 'setRating':
+      return updateHabit(state, action.habitId, h => setRating(h, action.date, action.rating));
+    case 'setDayCompletions':
+      return Object.keys(action.completed).reduce((next, habitId) => updateHabit(next, habitId, h => {
+        return !!h.logs[action.date]?.completed === action.completed[habitId] ? h : toggleLog(h, action.date, action.now);
+      }), state);
+    case 'bulkEdit':
+      return action.habitIds.reduce((next, habitId) => updateHabit(next, habitId, h => {
+        // Days before the habit started are left alone. Each day's edit only reads that day's log.
+        const start = toDateKey(getHabitStartDate(h));
+        const dates = action.dates.filter(date => date >= start);
+        return setLogs(h, dates.map(date => [date, bulkEditedLog(h, date, action.edit, action.now)]));
+      }), state);
+    case 'deleteLog':
+      return updateHabit(state, action.habitId, h => setLog(h, action.date, undefined));
+    case 'addHabit':
+      return { ...state, habits: [...state.habits, action.habit] };
+    case 'updateHabit':
+      return updateHabit(state, action.habitId, h => {
+        const updated = { ...h, ...action.changes };
+        // Only a new target or kind can change which logged amounts count as done
+        if (updated.target === h.target && updated.kind === h.kind) return updated;
+        return { ...updated, logs: recomputeMeasurableLogs(updated) };
+      });
+    case 'setArchived':
+      return updateHabit(state, action.habitId, h => h.archived === action.archived ? h : { ...h, archived: action.archived });
+    case 'deleteHabit':
+      return state.habits.some(h => h.id === action.habitId)
+        ? { ...state, habits: state.habits.filter(h => h.id !== action.habitId) }
+        : state;
+    case 'updateSettings':
+      return { ...state, settings: { ...state.settings, ...action.changes } };
+    case 'replaceData':
+      return action.data;
+  }
+};
+
+// Whether an action checks in a day that wasn't done before (for any of its habits), e.g. to play the check sound
+export const completesLog = (state: AppData, action: HabitAction): boolean => {
+  if (!('date' in action)) return false;
+  const habitIds = action.type === 'setDayCompletions' ? Object.keys(action.completed) : 'habitId' in action ? [action.habitId] : [];
+  if (habitIds.length === 0) return false;
+  const next = habitReducer(state, action);
+  const isDone = (data: AppData, habitId: string) => !!data.habits.find(h => h.id === habitId)?.logs[action.date]?.completed;
+  return habitIds.some(habitId => !isDone(state, habitId) && isDone(next, habitId));
+};
+
+// How many habit/day logs differ between two states, e.g. to preview what an action would change
+export const countChangedLogs = (before: AppData, after: AppData): number => {
+  const beforeById = new Map(before.habits.map(h => [h.id, h]));
+  return after.habits.reduce((count, habit) => {
+    const old = beforeById.get(habit.id);
+    if (!old || old.logs === habit.logs) return count;
+    const dates = new Set([...Object.keys(old.logs), ...Object.keys(habit.logs)]);
+    return count + Array.from(dates).filter(date => old.logs[date] !== habit.logs[date]).length;
+  }, 0);
+};
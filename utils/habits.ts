@@ -0,0 +1,69 @@
+import { startOfDay } from 'date-fns';
+import { DailyLog, Habit } from '../types';
+import { parseDateKey } from './date';
+
+// Simple ID generator since we can't easily import uuid without package manager in this constraint
+export const generateId = () => Math.random().toString(36).substr(2, 9);
+
+export const isMeasurable = (habit: Habit): boolean => {
+  return habit.kind === 'measurable' && !!habit.target && habit.target > 0;
+};
+
+// How much of the day's goal a log reached, from 0 to 1. Without a target it is all or nothing.
+export const getValueProgress = (log: DailyLog | undefined, target?: number): number => {
+  if (!log) return 0;
+  if (!target || log.value === undefined) return log.completed ? 1 : 0;
+  return Math.max(0, Math.min(log.value / target, 1));
+};
+
+export const getLogProgress = (habit: Habit, log?: DailyLog): number => {
+  return getValueProgress(log, isMeasurable(habit) ? habit.target : undefined);
+};
+
+// Apply a new amount to a measurable habit's log. Completion is derived from the target.
+// Returns undefined when nothing worth keeping is left (no amount and no note).
+export const withLogValue = (habit: Habit, dateKey: string, existing: DailyLog | undefined, value: number, now = new Date().toISOString()): DailyLog | undefined => {
+  const amount = Math.max(0, value);
+  const completed = amount >= (habit.target || 0);
+
+  if (amount === 0 && !existing?.note && !existing?.rating) return undefined;
+
+  return {
+    ...existing,
+    date: dateKey,
+    value: amount,
+    completed,
+    // Keep the original completion time; stamp it when the target is first reached
+    timestamp: completed ? existing?.timestamp || now : existing?.timestamp,
+  };
+};
+
+// Re-derive completion for every logged amount, e.g. after the target changed. Logs whose completion
+// stays the same are kept as they are (and `habit.logs` itself when none changed), since changes are
+// found by identity when saving and syncing.
+export const recomputeMeasurableLogs = (habit: Habit): Record<string, DailyLog> => {
+  if (!isMeasurable(habit)) return habit.logs;
+  let logs = habit.logs;
+  Object.entries(habit.logs).forEach(([key, log]) => {
+    if (log.value === undefined) return;
+    const completed = log.value >= habit.target!;
+    if (completed === log.completed) return;
+    if (logs === habit.logs) logs = { ...habit.logs };
+    logs[key] = { ...log, completed };
+  });
+  return logs;
+};
+
+// The first day a habit could have been tracked: its creation day, or an earlier backfilled log
+export const getHabitStartDate = (habit: Habit): Date => {
+  let start = startOfDay(new Date(habit.createdAt));
+  Object.keys(habit.logs).forEach(key => {
+    const logDate = parseDateKey(key);
+    if (logDate < start) start = logDate;
+  });
+  return start;
+};
+
+export const formatAmount = (value: number): string => {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+};
@@ -0,0 +1,65 @@
+import { AppData, Habit } from '../types';
+
+// Undo works on the differences an action made, so edits that came in since (a sync, another tab)
+// are kept: only the habits, fields and logs the action touched are put back.
+
+export interface HistoryEntry {
+  before: AppData;
+  after: AppData;
+}
+
+export const HISTORY_LIMIT = 50;
+
+const revertHabit = (current: Habit, before: Habit, after: Habit): Habit => {
+  let habit = current;
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.delete('logs');
+  keys.forEach(key => {
+    const field = key as keyof Habit;
+    if (before[field] === after[field]) return;
+    habit = { ...habit, [field]: before[field] };
+    if (before[field] === undefined) delete habit[field];
+  });
+
+  if (before.logs !== after.logs) {
+    const logs = { ...habit.logs };
+    new Set([...Object.keys(before.logs), ...Object.keys(after.logs)]).forEach(date => {
+      if (before.logs[date] === after.logs[date]) return;
+      if (before.logs[date]) logs[date] = before.logs[date];
+      else delete logs[date];
+    });
+    habit = { ...habit, logs };
+  }
+  return habit;
+};
+
+// Applies the reverse of before -> after to `current`. Redo is the same with the states swapped.
+export const revertChanges = (current: AppData, before: AppData, after: AppData): AppData => {
+  const beforeById = new Map(before.habits.map(h => [h.id, h]));
+  const afterById = new Map(after.habits.map(h => [h.id, h]));
+
+  const habits = current.habits
+    // Added by the action
+    .filter(h => beforeById.has(h.id) || !afterById.has(h.id))
+    .map(h => {
+      const a = beforeById.get(h.id);
+      const b = afterById.get(h.id);
+      return a && b && a !== b ? revertHabit(h, a, b) : h;
+    });
+
+  // Removed by the action: back at their old position
+  const currentIds = new Set(habits.map(h => h.id));
+  before.habits.forEach((habit, index) => {
+    if (!afterById.has(habit.id) && !currentIds.has(habit.id)) {
+      habits.splice(Math.min(index, habits.length), 0, habit);
+    }
+  });
+
+  const settings = before.settings !== after.settings ? before.settings : current.settings;
+  return { ...current, habits, settings };
+};
+
+// Settings changes alone aren't undone, anything touching habits or logs is (a reset included)
+export const isUndoableChange = (before: AppData, after: AppData) => {
+  return before.habits.length !== after.habits.length || before.habits.some((habit, i) => habit !== after.habits[i]);
+};
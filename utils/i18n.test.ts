@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { t } from './i18n';
+
+describe('t', () => {
+  it('looks up the text for the language', () => {
+    expect(t('en', 'scheduleIntervalLabel', { count: 3 })).toBe('Every 3 days');
+    expect(t('zh', 'scheduleIntervalLabel', { count: 3 })).toBe('每隔 3 天');
+  });
+
+  it('fills in several placeholders, in the order of the language', () => {
+    expect(t('en', 'completedOfDays', { completed: 4, total: 7 })).toBe('4 of 7 days');
+    expect(t('zh', 'completedOfDays', { completed: 4, total: 7 })).toBe('7 天中完成 4 天');
+  });
+
+  it('keeps `$` patterns in values as they are', () => {
+    expect(t('en', 'lastSynced', { time: "$& $' $1" })).toBe("Last synced $& $' $1");
+  });
+
+  it('ignores params the text has no placeholder for', () => {
+    expect(t('en', 'diffChanged', { added: 1, removed: 2, changed: 3, extra: 4 })).toBe('+1 −2 ~3');
+  });
+
+  it('leaves placeholders without a value in place', () => {
+    expect(t('en', 'dueDaysThisMonth', { count: 2 })).toBe('2/{due} due days this month');
+  });
+});
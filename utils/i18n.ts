@@ -10,10 +10,10 @@ export const translations = {
     managePreferences: 'Manage your preferences.',
     export: 'Export Data',
     exportBtn: 'Export',
-    exportDesc: 'Download your history as JSON.',
+    exportDesc: 'Download your history as JSON, or as CSV for spreadsheets.',
     import: 'Import Data',
     importBtn: 'Import',
-    importDesc: 'Restore from a backup file.',
+    importDesc: 'Restore from a backup file, or import a CSV or a Loop Habit Tracker export.',
     dangerZone: 'Danger Zone',
     reset: 'Reset Everything',
     confirmReset: 'Are you sure? This will wipe all data permanently.',
@@ -67,7 +67,7 @@ export const translations = {
     longPressToToggle: 'Long press to toggle status',
     advancedOptions: 'Advanced Options',
     webDav: 'WebDAV Sync',
-    webDavDesc: 'Sync your data to a WebDAV server.',
+    webDavDesc: 'Sync your data across devices through a WebDAV server.',
     serverUrl: 'Server URL',
     username: 'Username',
     password: 'Password',
@@ -79,10 +79,205 @@ export const translations = {
     syncSuccess: 'Sync successful!',
     syncFailed: 'Sync failed.',
     autoSync: 'Auto Sync',
-    autoSyncDesc: 'Sync automatically when data changes.',
+    autoSyncDesc: 'Sync when data changes and when the app is reopened.',
     proxyHint: 'For local testing with Jianguoyun, use URL: /webdav',
     proxyUrl: 'CORS Proxy URL',
     proxyUrlDesc: 'Optional. Use if you encounter CORS errors (e.g. Cloudflare Worker).',
+    analytics: 'Analytics',
+    analyticsDesc: 'Review your progress over time.',
+    rangeWeek: 'Week',
+    rangeMonth: 'Month',
+    rangeQuarter: 'Quarter',
+    rangeYear: 'Year',
+    completionByHabit: 'Completion by Habit',
+    completedOfDays: '{completed} of {total} days',
+    currentStreak: 'Current Streak',
+    bestStreak: 'Best Streak',
+    weekdayDistribution: 'Check-ins by Weekday',
+    timeOfDay: 'Time of Day',
+    noTimedLogs: 'No timed check-ins in this range.',
+    habitType: 'Habit Type',
+    typeCheck: 'Check-off',
+    typeMeasurable: 'Measurable',
+    dailyTarget: 'Daily Target',
+    unit: 'Unit',
+    unitPlaceholder: 'e.g. pages',
+    amount: 'Amount',
+    increase: 'Increase',
+    decrease: 'Decrease',
+    scheduleDaily: 'Daily',
+    scheduleWeekdays: 'Weekdays',
+    scheduleTimesPerWeek: 'Per Week',
+    scheduleTimesPerMonth: 'Per Month',
+    scheduleInterval: 'Interval',
+    timesPerWeekSuffix: 'times per week',
+    timesPerMonthSuffix: 'times per month',
+    everyPrefix: 'Every',
+    scheduleTimesPerWeekLabel: '{count}× a week',
+    scheduleTimesPerMonthLabel: '{count}× a month',
+    scheduleIntervalLabel: 'Every {count} days',
+    dueDaysThisMonth: '{count}/{due} due days this month',
+    streakFreezes: 'Streak Freezes',
+    streakFreezesDesc: 'Missed days per month that don\'t break a streak.',
+    archive: 'Archive',
+    archivedHabits: 'Archived',
+    restore: 'Restore',
+    lastSynced: 'Last synced {time}',
+    backups: 'Backups',
+    browseBackups: 'Browse Backups',
+    loadingBackups: 'Loading backups...',
+    noBackups: 'No backups found.',
+    backupCounts: '{habits} habits · {logs} logs',
+    backupPreviewDesc: 'Compared with your current data. Pick habits to restore, or restore everything.',
+    diffAdded: 'Only in backup',
+    diffRemoved: 'Not in backup',
+    diffSame: 'Unchanged',
+    diffChanged: '+{added} −{removed} ~{changed}',
+    restoreSelected: 'Restore Selected ({count})',
+    restoreAll: 'Restore All',
+    passphrase: 'Passphrase',
+    repeatPassphrase: 'Repeat passphrase',
+    passphraseMismatch: 'Passphrases don\'t match.',
+    passphraseWarning: 'The passphrase is never stored or uploaded. If you forget it, encrypted backups can\'t be recovered.',
+    incorrectPassphrase: 'Incorrect passphrase.',
+    unlock: 'Unlock',
+    setPassphrase: 'Set Passphrase',
+    setPassphraseDesc: 'Choose a passphrase to encrypt your backups before they leave this device.',
+    syncPassphraseDesc: 'Your backups are encrypted. Enter the passphrase to sync during this session.',
+    importPassphraseDesc: 'This file is encrypted. Enter the passphrase to open it.',
+    restorePassphraseDesc: 'Some backups are encrypted. Enter the passphrase to preview and restore them.',
+    encryptBackups: 'Encrypt Backups',
+    encryptBackupsDesc: 'Encrypted on this device with your passphrase (AES-GCM). The server only sees ciphertext.',
+    passphraseNeeded: 'Enter passphrase to sync',
+    unlockBackups: 'Unlock encrypted backups',
+    newerSchemaError: 'This data comes from a newer version of HabitPulse. Update the app to open it.',
+    reviewImport: 'Review Import',
+    habits: 'Habits',
+    logs: 'Logs',
+    dateRange: 'Date Range',
+    noIssues: 'No problems found.',
+    issuesFound: '{count} problems found',
+    issueInvalidJson: 'Not valid JSON',
+    issueNotObject: 'Not an object',
+    issueMissing: 'Required value is missing',
+    issueWrongType: 'Wrong type, expected {expected}',
+    issueBadDate: 'Not a valid YYYY-MM-DD date',
+    issueBadTimestamp: 'Not a valid date and time',
+    issueDateMismatch: 'Date doesn\'t match its key',
+    issueDuplicateId: 'Duplicate habit id',
+    issueOutOfRange: 'Value out of range',
+    issueUnknownValue: 'Unknown value, expected {expected}',
+    effectFile: 'nothing can be imported',
+    effectHabit: 'habit skipped',
+    effectLog: 'log skipped',
+    effectField: 'value removed',
+    effectDefault: 'current setting kept',
+    importReplaceWarning: 'Importing replaces all current habits and logs.',
+    importValidParts: 'Import Valid Parts',
+    cancel: 'Cancel',
+    importReplace: 'Replace All',
+    importMerge: 'Merge',
+    matchByTitle: 'Also match habits by title',
+    mergeHabitsAdded: '{count} habits to add',
+    mergeHabitsUpdated: '{count} habits to update',
+    mergeHabitsUnchanged: '{count} habits unchanged',
+    mergeLogsAdded: '{count} logs to add',
+    mergeLogsUnchanged: '{count} logs already the same',
+    mergeConflicts: '{count} conflicting logs',
+    resolveNewest: 'Newest Wins',
+    resolveManually: 'Choose Each',
+    keepMine: 'Keep mine',
+    useImported: 'Use imported',
+    csvColumns: 'CSV Columns',
+    csvColumnsDesc: '{count} rows found. Choose which column holds each field.',
+    csvNotMapped: '— Not in file —',
+    csvRequiredColumns: 'A date column and a habit title or id column are required.',
+    csvHabitTitle: 'Habit title',
+    csvHabitId: 'Habit ID',
+    csvDate: 'Date',
+    csvCompleted: 'Completed',
+    csvValue: 'Value',
+    csvRating: 'Rating',
+    csvTimestamp: 'Completion time',
+    continue: 'Continue',
+    issueDuplicateRow: 'Same habit and date as an earlier row',
+    icsExport: 'Calendar Export',
+    icsExportDesc: 'Completed days as calendar events (.ics).',
+    icsReminders: 'Include reminders',
+    icsRemindersDesc: 'Adds a repeating event with an alert for each active habit, following its schedule.',
+    icsExportHabit: 'Export to calendar (.ics)',
+    updateAvailable: 'A new version of HabitPulse is available.',
+    updateReload: 'Reload',
+    installApp: 'Install HabitPulse',
+    installAppDesc: 'Add it to your home screen for quick, offline check-ins.',
+    installIosHint: 'In Safari, tap Share, then "Add to Home Screen".',
+    install: 'Install',
+    reminders: 'Reminders',
+    addReminder: 'Add',
+    remindersDesc: 'Notifies on due days until the habit is done, while HabitPulse is open or running in the background.',
+    remindersBlocked: 'Notifications are blocked for this site. Allow them in the browser settings.',
+    remindersUnsupported: 'This browser does not support notifications.',
+    reminderBody: 'Time for today\'s check-in.',
+    reminderBodyAmount: 'Today\'s target: {amount}',
+    reminderMarkDone: 'Mark done',
+    undo: 'Undo',
+    habitDeleted: 'Habit deleted',
+    habitArchived: 'Habit archived',
+    logDeleted: 'Record deleted',
+    dataReset: 'All data reset',
+    checkInAdded: 'Checked in',
+    checkInRemoved: 'Check-in removed',
+    heatmapLastWeeks: 'Last {count} weeks',
+    heatmapSinceStart: 'Since start',
+    heatmapCustom: 'Custom range',
+    heatmapPrevYear: 'Previous year',
+    heatmapNextYear: 'Next year',
+    heatmapFrom: 'From',
+    heatmapTo: 'To',
+    overviewTitle: 'All habits',
+    overviewDone: 'Done: {habits}',
+    overviewMissed: 'Missed: {habits}',
+    overviewNothingDue: 'Nothing due',
+    daySummaryHint: 'Tick the habits you did this day.',
+    daySummaryEmpty: 'No habits had started by this day.',
+    daySummaryOptional: 'Optional',
+    daySummaryOff: 'Not due',
+    checkInsUpdated: 'Check-ins updated',
+    bulkEdit: 'Bulk edit',
+    bulkEditHabits: 'Habits',
+    bulkEditFrom: 'From',
+    bulkEditTo: 'To',
+    bulkEditComplete: 'Mark done',
+    bulkEditUncomplete: 'Clear check-ins',
+    bulkEditSetValue: 'Set amount',
+    bulkEditSetNote: 'Set note',
+    bulkEditNoteHint: 'A note on a check habit also checks it in. An empty note clears the notes.',
+    bulkEditPreview: '{count} logs will change ({days} days × {habits} habits)',
+    bulkEditNothing: 'Nothing to change',
+    bulkEditTooLong: 'Pick a range of at most {days} days',
+    bulkEditApply: 'Apply',
+    bulkEditDragHint: 'Drag across days to edit several at once',
+    logsUpdated: 'Logs updated',
+    ratingStars: '{rating} of 5',
+    ratingClear: 'Tap again to clear the rating',
+    heatmapByRating: 'Color by rating',
+    ratingTrend: 'Average rating by week',
+    ratingTrendEmpty: 'No ratings in the last {weeks} weeks',
+    ratingWeek: 'Week of {date}: average {average}, days rated: {count}',
+    journal: 'Journal',
+    journalDesc: 'Every note across your habits, newest first.',
+    journalSearch: 'Search notes',
+    journalFrom: 'From',
+    journalTo: 'To',
+    journalCount: '{count} notes',
+    journalClearFilters: 'Clear filters',
+    journalEmpty: 'No notes yet. Notes you add to a day show up here.',
+    journalNoMatches: 'No notes match these filters',
+    journalShowMore: 'Show more',
+    loadErrorTitle: 'Your data couldn\'t be loaded',
+    loadErrorHint: 'Nothing has been changed or overwritten. Reload to try again.',
+    loadErrorReload: 'Reload',
+    syncPaused: 'Sync paused – enter your passphrase to continue.',
   },
   zh: {
     dashboard: '仪表盘',
@@ -92,10 +287,10 @@ export const translations = {
     managePreferences: '管理你的偏好设置。',
     export: '导出数据',
     exportBtn: '导出',
-    exportDesc: '下载 JSON 格式的历史记录。',
+    exportDesc: '下载 JSON 格式的历史记录，或用于表格的 CSV。',
     import: '导入数据',
     importBtn: '导入',
-    importDesc: '从备份文件中恢复数据。',
+    importDesc: '从备份文件中恢复数据，或导入 CSV 及 Loop Habit Tracker 导出文件。',
     dangerZone: '危险区域',
     reset: '重置所有数据',
     confirmReset: '确定吗？这将永久删除所有数据。',
@@ -149,7 +344,7 @@ export const translations = {
     longPressToToggle: '长按日期可以快速打卡',
     advancedOptions: '高级选项',
     webDav: 'WebDAV 同步',
-    webDavDesc: '将数据同步到 WebDAV 服务器。',
+    webDavDesc: '通过 WebDAV 服务器在多台设备间同步数据。',
     serverUrl: '服务器地址',
     username: '用户名',
     password: '密码',
@@ -161,18 +356,216 @@ export const translations = {
     syncSuccess: '同步成功！',
     syncFailed: '同步失败。',
     autoSync: '自动同步',
-    autoSyncDesc: '数据变更时自动同步。',
+    autoSyncDesc: '数据变更或重新打开应用时自动同步。',
     proxyHint: '本地测试坚果云请使用地址: /webdav',
     proxyUrl: 'CORS 代理地址',
     proxyUrlDesc: '可选。如果遇到 CORS 错误请填写（如 Cloudflare Worker）。',
+    analytics: '数据分析',
+    analyticsDesc: '回顾一段时间内的坚持情况。',
+    rangeWeek: '周',
+    rangeMonth: '月',
+    rangeQuarter: '季',
+    rangeYear: '年',
+    completionByHabit: '各习惯完成率',
+    completedOfDays: '{total} 天中完成 {completed} 天',
+    currentStreak: '当前连续',
+    bestStreak: '最佳连续',
+    weekdayDistribution: '按星期分布',
+    timeOfDay: '打卡时段',
+    noTimedLogs: '该时段内没有带时间的打卡记录。',
+    habitType: '习惯类型',
+    typeCheck: '打卡型',
+    typeMeasurable: '数值型',
+    dailyTarget: '每日目标',
+    unit: '单位',
+    unitPlaceholder: '如：页',
+    amount: '数量',
+    increase: '增加',
+    decrease: '减少',
+    scheduleDaily: '每天',
+    scheduleWeekdays: '按星期',
+    scheduleTimesPerWeek: '每周几次',
+    scheduleTimesPerMonth: '每月几次',
+    scheduleInterval: '间隔',
+    timesPerWeekSuffix: '次 / 周',
+    timesPerMonthSuffix: '次 / 月',
+    everyPrefix: '每隔',
+    scheduleTimesPerWeekLabel: '每周 {count} 次',
+    scheduleTimesPerMonthLabel: '每月 {count} 次',
+    scheduleIntervalLabel: '每隔 {count} 天',
+    dueDaysThisMonth: '本月应打卡 {due} 天，已完成 {count} 天',
+    streakFreezes: '连续打卡保护',
+    streakFreezesDesc: '每月可错过且不中断连续记录的天数。',
+    archive: '归档',
+    archivedHabits: '已归档',
+    restore: '恢复',
+    lastSynced: '上次同步：{time}',
+    backups: '备份',
+    browseBackups: '浏览备份',
+    loadingBackups: '正在加载备份...',
+    noBackups: '未找到备份。',
+    backupCounts: '{habits} 个习惯 · {logs} 条记录',
+    backupPreviewDesc: '与当前数据对比。选择要恢复的习惯，或全部恢复。',
+    diffAdded: '仅在备份中',
+    diffRemoved: '不在备份中',
+    diffSame: '无变化',
+    diffChanged: '+{added} −{removed} ~{changed}',
+    restoreSelected: '恢复所选 ({count})',
+    restoreAll: '全部恢复',
+    passphrase: '密码短语',
+    repeatPassphrase: '再次输入密码短语',
+    passphraseMismatch: '两次输入的密码短语不一致。',
+    passphraseWarning: '密码短语不会被保存或上传。一旦遗忘，加密备份将无法恢复。',
+    incorrectPassphrase: '密码短语错误。',
+    unlock: '解锁',
+    setPassphrase: '设置密码短语',
+    setPassphraseDesc: '设置一个密码短语，备份在离开本设备前将被加密。',
+    syncPassphraseDesc: '你的备份已加密。输入密码短语以在本次会话中同步。',
+    importPassphraseDesc: '此文件已加密。输入密码短语以打开。',
+    restorePassphraseDesc: '部分备份已加密。输入密码短语以预览和恢复。',
+    encryptBackups: '加密备份',
+    encryptBackupsDesc: '使用你的密码短语在本设备加密 (AES-GCM)，服务器只能看到密文。',
+    passphraseNeeded: '输入密码短语以同步',
+    unlockBackups: '解锁加密备份',
+    newerSchemaError: '此数据来自更新版本的 HabitPulse，请先更新应用。',
+    reviewImport: '检查导入',
+    habits: '习惯',
+    logs: '记录',
+    dateRange: '日期范围',
+    noIssues: '未发现问题。',
+    issuesFound: '发现 {count} 个问题',
+    issueInvalidJson: '不是有效的 JSON',
+    issueNotObject: '不是对象',
+    issueMissing: '缺少必填值',
+    issueWrongType: '类型错误，应为 {expected}',
+    issueBadDate: '不是有效的 YYYY-MM-DD 日期',
+    issueBadTimestamp: '不是有效的日期时间',
+    issueDateMismatch: '日期与键不一致',
+    issueDuplicateId: '习惯 ID 重复',
+    issueOutOfRange: '数值超出范围',
+    issueUnknownValue: '未知值，应为 {expected}',
+    effectFile: '无法导入',
+    effectHabit: '跳过该习惯',
+    effectLog: '跳过该记录',
+    effectField: '移除该值',
+    effectDefault: '保留当前设置',
+    importReplaceWarning: '导入将替换当前所有习惯和记录。',
+    importValidParts: '仅导入有效部分',
+    cancel: '取消',
+    importReplace: '全部替换',
+    importMerge: '合并',
+    matchByTitle: '同时按名称匹配习惯',
+    mergeHabitsAdded: '新增 {count} 个习惯',
+    mergeHabitsUpdated: '更新 {count} 个习惯',
+    mergeHabitsUnchanged: '{count} 个习惯无变化',
+    mergeLogsAdded: '新增 {count} 条记录',
+    mergeLogsUnchanged: '{count} 条记录相同',
+    mergeConflicts: '{count} 条记录冲突',
+    resolveNewest: '保留最新',
+    resolveManually: '逐条选择',
+    keepMine: '保留本地',
+    useImported: '使用导入',
+    csvColumns: 'CSV 列',
+    csvColumnsDesc: '共 {count} 行。请选择每个字段对应的列。',
+    csvNotMapped: '— 文件中没有 —',
+    csvRequiredColumns: '需要日期列，以及习惯名称或 ID 列。',
+    csvHabitTitle: '习惯名称',
+    csvHabitId: '习惯 ID',
+    csvDate: '日期',
+    csvCompleted: '已完成',
+    csvValue: '数值',
+    csvRating: '评分',
+    csvTimestamp: '完成时间',
+    continue: '继续',
+    issueDuplicateRow: '与前面某行的习惯和日期重复',
+    icsExport: '日历导出',
+    icsExportDesc: '将已完成的日子导出为日历事件（.ics）。',
+    icsReminders: '包含提醒',
+    icsRemindersDesc: '为每个进行中的习惯添加按计划重复并带提醒的事件。',
+    icsExportHabit: '导出到日历（.ics）',
+    updateAvailable: 'HabitPulse 有新版本可用。',
+    updateReload: '刷新',
+    installApp: '安装 HabitPulse',
+    installAppDesc: '添加到主屏幕，离线也能快速打卡。',
+    installIosHint: '在 Safari 中点击分享，然后选择「添加到主屏幕」。',
+    install: '安装',
+    reminders: '提醒',
+    addReminder: '添加',
+    remindersDesc: '在应打卡的日子提醒，直到完成为止（需 HabitPulse 在前台或后台运行）。',
+    remindersBlocked: '此网站的通知已被阻止，请在浏览器设置中允许。',
+    remindersUnsupported: '此浏览器不支持通知。',
+    reminderBody: '该打卡啦。',
+    reminderBodyAmount: '今日目标：{amount}',
+    reminderMarkDone: '标记完成',
+    undo: '撤销',
+    habitDeleted: '习惯已删除',
+    habitArchived: '习惯已归档',
+    logDeleted: '记录已删除',
+    dataReset: '数据已全部重置',
+    checkInAdded: '已打卡',
+    checkInRemoved: '已取消打卡',
+    heatmapLastWeeks: '最近 {count} 周',
+    heatmapSinceStart: '开始至今',
+    heatmapCustom: '自定义范围',
+    heatmapPrevYear: '上一年',
+    heatmapNextYear: '下一年',
+    heatmapFrom: '从',
+    heatmapTo: '至',
+    overviewTitle: '全部习惯',
+    overviewDone: '已完成：{habits}',
+    overviewMissed: '未完成：{habits}',
+    overviewNothingDue: '无需打卡',
+    daySummaryHint: '勾选这一天完成的习惯。',
+    daySummaryEmpty: '这一天还没有开始的习惯。',
+    daySummaryOptional: '可选',
+    daySummaryOff: '无需打卡',
+    checkInsUpdated: '打卡已更新',
+    bulkEdit: '批量编辑',
+    bulkEditHabits: '习惯',
+    bulkEditFrom: '从',
+    bulkEditTo: '至',
+    bulkEditComplete: '标记完成',
+    bulkEditUncomplete: '取消打卡',
+    bulkEditSetValue: '设置数量',
+    bulkEditSetNote: '设置备注',
+    bulkEditNoteHint: '打卡型习惯写了备注即算打卡；留空则清除备注。',
+    bulkEditPreview: '将修改 {count} 条记录（{days} 天 × {habits} 个习惯）',
+    bulkEditNothing: '没有需要修改的记录',
+    bulkEditTooLong: '请选择不超过 {days} 天的范围',
+    bulkEditApply: '应用',
+    bulkEditDragHint: '拖动选择多天可批量编辑',
+    logsUpdated: '记录已更新',
+    ratingStars: '{rating} 分（满分 5 分）',
+    ratingClear: '再点一次清除评分',
+    heatmapByRating: '按评分着色',
+    ratingTrend: '每周平均评分',
+    ratingTrendEmpty: '最近 {weeks} 周没有评分',
+    ratingWeek: '{date} 当周：{count} 次评分，平均 {average}',
+    journal: '日记',
+    journalDesc: '所有习惯的备注，按时间倒序。',
+    journalSearch: '搜索备注',
+    journalFrom: '从',
+    journalTo: '至',
+    journalCount: '{count} 条备注',
+    journalClearFilters: '清除筛选',
+    journalEmpty: '还没有备注。给某天添加的备注会显示在这里。',
+    journalNoMatches: '没有符合条件的备注',
+    journalShowMore: '显示更多',
+    loadErrorTitle: '无法读取你的数据',
+    loadErrorHint: '数据没有被修改或覆盖。请刷新页面重试。',
+    loadErrorReload: '刷新',
+    syncPaused: '同步已暂停——输入密码短语以继续。',
   }
 };
 
-export const t = (lang: Language, key: keyof typeof translations.en, params?: Record<string, string | number>) => {
+export type TranslationKey = keyof typeof translations.en;
+
+export const t = (lang: Language, key: TranslationKey, params?: Record<string, string | number>) => {
   let text = translations[lang][key] || translations['en'][key];
   if (params) {
     Object.keys(params).forEach(param => {
-      text = text.replace(`{${param}}`, String(params[param]));
+      // split/join replaces every occurrence and doesn't treat `$` in the value as a pattern
+      text = text.split(`{${param}}`).join(String(params[param]));
     });
   }
   return text;
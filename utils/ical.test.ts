@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { habitsToIcs } from './ical';
+import { makeHabit } from './testing';
+
+const events = (ics: string) => ics.split('BEGIN:VEVENT').slice(1);
+
+describe('habitsToIcs', () => {
+  it('exports a check-in at its completion time', () => {
+    const habit = makeHabit([], { logs: { '2024-03-10': { date: '2024-03-10', completed: true, timestamp: '2024-03-10T12:30:00.000Z' } } });
+    const [event] = events(habitsToIcs([habit], 'Habits'));
+    expect(event).toContain('DTSTART:20240310T123000Z\r\nDURATION:PT15M');
+  });
+
+  it('exports a backfilled check-in as an all-day event on its own day', () => {
+    const habit = makeHabit([], { logs: { '2024-03-10': { date: '2024-03-10', completed: true, timestamp: '2024-03-14T12:30:00.000Z' } } });
+    const [event] = events(habitsToIcs([habit], 'Habits'));
+    expect(event).toContain('DTSTART;VALUE=DATE:20240310\r\nDTEND;VALUE=DATE:20240311');
+    expect(event).not.toContain('DURATION');
+  });
+});
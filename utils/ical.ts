@@ -0,0 +1,141 @@
+import { addDays, format } from 'date-fns';
+import { Habit, WeekStart } from '../types';
+import { parseDateKey, toDateKey } from './date';
+import { formatAmount, getHabitStartDate, isMeasurable } from './habits';
+import { getSchedule } from './schedule';
+
+// iCalendar (RFC 5545) export. Completed logs become events: all-day, or at the completion time when
+// the log was checked in on its own day. Reminders are optional recurring events that follow each habit's schedule.
+
+export interface IcsOptions {
+  reminders?: boolean;
+  reminderTime?: string; // HH:mm, local time
+  weekStart?: WeekStart;
+  now?: Date;
+}
+
+const ICAL_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// TEXT values escape backslashes, separators and newlines
+const escapeText = (text: string) => text
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets, continuation lines start with a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const utcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const dateValue = (date: Date) => format(date, 'yyyyMMdd');
+
+const completionEvents = (habit: Habit, stamp: string): string[][] => {
+  return Object.keys(habit.logs).sort().filter(key => habit.logs[key].completed).map(key => {
+    const log = habit.logs[key];
+    const amount = isMeasurable(habit) && log.value !== undefined ? ` (${formatAmount(log.value)}${habit.unit ? ` ${habit.unit}` : ''})` : '';
+    const day = parseDateKey(key);
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${habit.id}-${key}@habitpulse`,
+      `DTSTAMP:${stamp}`,
+      `SUMMARY:${escapeText(`✓ ${habit.title}${amount}`)}`,
+    ];
+    // A backfilled log's timestamp is when it was entered, not a time on the logged day
+    if (log.timestamp && toDateKey(new Date(log.timestamp)) === key) {
+      lines.push(`DTSTART:${utcStamp(new Date(log.timestamp))}`, 'DURATION:PT15M');
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${dateValue(day)}`, `DTEND;VALUE=DATE:${dateValue(addDays(day, 1))}`);
+    }
+    if (log.note) lines.push(`DESCRIPTION:${escapeText(log.note)}`);
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+    return lines;
+  });
+};
+
+// A repeating event per habit. Quota schedules (n times per week/month) have no fixed days, so they
+// remind once at the start of each period.
+const reminderEvent = (habit: Habit, stamp: string, time: string, weekStart: WeekStart): string[] => {
+  const schedule = getSchedule(habit);
+  const start = getHabitStartDate(habit);
+  const [hours, minutes] = time.split(':').map(Number);
+  start.setHours(hours || 0, minutes || 0, 0, 0);
+
+  let rule = 'FREQ=DAILY';
+  let label = '';
+  switch (schedule.type) {
+    case 'weekdays':
+      rule = `FREQ=WEEKLY;BYDAY=${schedule.days.map(d => ICAL_DAYS[d]).join(',')}`;
+      break;
+    case 'interval':
+      rule = `FREQ=DAILY;INTERVAL=${Math.max(1, schedule.every)}`;
+      break;
+    case 'timesPerWeek':
+      rule = `FREQ=WEEKLY;BYDAY=${weekStart === 'monday' ? 'MO' : 'SU'}`;
+      label = ` (${schedule.times}×/wk)`;
+      break;
+    case 'timesPerMonth':
+      rule = 'FREQ=MONTHLY;BYMONTHDAY=1';
+      label = ` (${schedule.times}×/mo)`;
+      break;
+  }
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${habit.id}-reminder@habitpulse`,
+    `DTSTAMP:${stamp}`,
+    // Floating local time, so the reminder stays at the same hour wherever the calendar is
+    `DTSTART:${format(start, "yyyyMMdd'T'HHmmss")}`,
+    'DURATION:PT15M',
+    `RRULE:${rule}`,
+    `SUMMARY:${escapeText(`${habit.title}${label}`)}`,
+    ...(habit.description ? [`DESCRIPTION:${escapeText(habit.description)}`] : []),
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(habit.title)}`,
+    'TRIGGER:PT0M',
+    'END:VALARM',
+    'END:VEVENT',
+  ];
+};
+
+export const habitsToIcs = (habits: Habit[], calendarName: string, options: IcsOptions = {}): string => {
+  const stamp = utcStamp(options.now || new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//HabitPulse//Habit Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+  habits.forEach(habit => {
+    completionEvents(habit, stamp).forEach(event => lines.push(...event));
+    if (options.reminders && !habit.archived) {
+      lines.push(...reminderEvent(habit, stamp, options.reminderTime || '09:00', options.weekStart || 'monday'));
+    }
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// A file name that is safe on every platform
+export const icsFileName = (name: string) => `${name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'habits'}.ics`;
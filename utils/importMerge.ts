@@ -0,0 +1,116 @@
+import { AppData, DailyLog, Habit } from '../types';
+import { hasSameLogContent } from './backup';
+
+// 'idOrTitle' also pairs habits with the same title when their ids differ, e.g. exports from another device
+export type HabitMatchMode = 'id' | 'idOrTitle';
+export type ConflictChoice = 'local' | 'incoming';
+
+export interface LogConflict {
+  key: string; // "localHabitId/YYYY-MM-DD"
+  habitId: string; // Local habit id
+  habitTitle: string;
+  date: string;
+  local: DailyLog;
+  incoming: DailyLog;
+}
+
+export interface HabitMergePlan {
+  local: Habit;
+  incoming: Habit;
+  newLogs: string[]; // Dates only the incoming habit has
+  unchangedLogs: number;
+  conflicts: LogConflict[];
+}
+
+// Dry run of a merge import: nothing is changed until applyMerge
+export interface MergePlan {
+  added: Habit[]; // Incoming habits with no local match
+  matched: HabitMergePlan[];
+  logsAdded: number;
+  logsUnchanged: number;
+  conflicts: LogConflict[];
+}
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+export const planMerge = (local: AppData, incoming: AppData, matchMode: HabitMatchMode): MergePlan => {
+  const localById = new Map(local.habits.map(h => [h.id, h]));
+  const pairs: [Habit, Habit][] = [];
+  const unmatched: Habit[] = [];
+
+  incoming.habits.forEach(habit => {
+    const byId = localById.get(habit.id);
+    if (byId) pairs.push([byId, habit]);
+    else unmatched.push(habit);
+  });
+
+  // Title matches only pair habits that no id already claimed, one to one
+  const added: Habit[] = [];
+  const claimed = new Set(pairs.map(([l]) => l.id));
+  unmatched.forEach(habit => {
+    const byTitle = matchMode === 'idOrTitle'
+      ? local.habits.find(h => !claimed.has(h.id) && normalizeTitle(h.title) === normalizeTitle(habit.title))
+      : undefined;
+    if (byTitle) {
+      claimed.add(byTitle.id);
+      pairs.push([byTitle, habit]);
+    } else {
+      added.push(habit);
+    }
+  });
+
+  const matched = pairs.map(([localHabit, incomingHabit]): HabitMergePlan => {
+    const newLogs: string[] = [];
+    const conflicts: LogConflict[] = [];
+    let unchangedLogs = 0;
+    Object.entries(incomingHabit.logs).forEach(([date, log]) => {
+      const current = localHabit.logs[date];
+      if (!current) newLogs.push(date);
+      else if (hasSameLogContent(current, log)) unchangedLogs++;
+      else conflicts.push({ key: `${localHabit.id}/${date}`, habitId: localHabit.id, habitTitle: localHabit.title, date, local: current, incoming: log });
+    });
+    return { local: localHabit, incoming: incomingHabit, newLogs, unchangedLogs, conflicts };
+  });
+
+  return {
+    added,
+    matched,
+    logsAdded: matched.reduce((sum, m) => sum + m.newLogs.length, 0) + added.reduce((sum, h) => sum + Object.keys(h.logs).length, 0),
+    logsUnchanged: matched.reduce((sum, m) => sum + m.unchangedLogs, 0),
+    conflicts: matched.flatMap(m => m.conflicts),
+  };
+};
+
+// Latest moment a log was touched, by its completion time or its last edit
+const logTime = (log: DailyLog) => {
+  const times = [log.timestamp, log.updatedAt].filter((time): time is string => !!time);
+  return times.length > 0 ? times.sort()[times.length - 1] : '';
+};
+
+// Keep whichever side changed last; the local log wins ties and logs without times
+export const newestChoice = (conflict: LogConflict): ConflictChoice => {
+  return logTime(conflict.incoming) > logTime(conflict.local) ? 'incoming' : 'local';
+};
+
+// Matched habits keep their local details and gain the incoming logs; conflicts follow `choices`
+// (falling back to the newest log). Unmatched habits are added, settings stay local.
+export const applyMerge = (local: AppData, plan: MergePlan, choices: Record<string, ConflictChoice> = {}): AppData => {
+  const byLocalId = new Map(plan.matched.map(m => [m.local.id, m]));
+
+  const habits = local.habits.map(habit => {
+    const match = byLocalId.get(habit.id);
+    if (!match || (match.newLogs.length === 0 && match.conflicts.length === 0)) return habit;
+
+    const logs = { ...habit.logs };
+    match.newLogs.forEach(date => {
+      logs[date] = match.incoming.logs[date];
+    });
+    match.conflicts.forEach(conflict => {
+      const choice = choices[conflict.key] || newestChoice(conflict);
+      if (choice === 'incoming') logs[conflict.date] = conflict.incoming;
+    });
+    return { ...habit, logs };
+  });
+
+  return { ...local, habits: [...habits, ...plan.added] };
+};
@@ -0,0 +1,163 @@
+import { AppData, DailyLog, Habit, HabitSchedule, HABIT_COLORS } from '../types';
+import { parseCsv, CsvMapping } from './csv';
+import { isValidDateKey } from './date';
+import { generateId } from './habits';
+import { ValidationIssue } from './validation';
+
+// Importers for other trackers' exports. Each returns just the imported habits, to be merged
+// into the current data like a CSV import.
+
+export interface TrackerImportResult {
+  data: AppData;
+  issues: ValidationIssue[];
+}
+
+const hexToRgb = (hex: string): [number, number, number] | null => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const n = parseInt(match[1], 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+// The HABIT_COLORS entry closest to any hex color
+export const nearestHabitColor = (hex: string): string => {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return HABIT_COLORS[0].value;
+  let best = HABIT_COLORS[0].value;
+  let bestDistance = Infinity;
+  HABIT_COLORS.forEach(({ value }) => {
+    const [r, g, b] = hexToRgb(value)!;
+    const distance = (r - rgb[0]) ** 2 + (g - rgb[1]) ** 2 + (b - rgb[2]) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = value;
+    }
+  });
+  return best;
+};
+
+// --- Loop Habit Tracker ---
+// Its zip export has Habits.csv (one row per habit) and Checkmarks.csv (one row per day, one column per
+// habit, newest day first). Older versions store the color as an index into Loop's palette.
+
+const LOOP_PALETTE = [
+  '#D32F2F', '#E64A19', '#F57C00', '#FF8F00', '#F9A825', '#AFB42B', '#7CB342', '#388E3C', '#00897B', '#00ACC1',
+  '#039BE5', '#1976D2', '#303F9F', '#5E35B1', '#8E24AA', '#D81B60', '#5D4037', '#303030', '#757575', '#AAAAAA',
+];
+
+// Checkmark values: 2 = checked by hand, 1 = implied by the frequency, 0 = not done, -1 = no data, 3 = skipped
+const LOOP_CHECKED = ['2', 'YES_MANUAL'];
+
+const loopSchedule = (numerator: number, denominator: number): HabitSchedule | undefined => {
+  if (!numerator || !denominator || numerator >= denominator) return undefined;
+  if (denominator === 7) return { type: 'timesPerWeek', times: numerator };
+  if (denominator >= 28 && denominator <= 31) return { type: 'timesPerMonth', times: numerator };
+  if (numerator === 1) return { type: 'interval', every: denominator };
+  return undefined;
+};
+
+// The top-level files (per-habit folders hold their own Checkmarks.csv), possibly inside one wrapping folder
+const findFile = (files: Map<string, string>, name: string) => {
+  const key = Array.from(files.keys()).find(path => path.split('/').pop()?.toLowerCase() === name.toLowerCase() && path.split('/').length <= 2);
+  return key ? files.get(key) : undefined;
+};
+
+export const findLoopExport = (files: Map<string, string>) => {
+  const checkmarks = findFile(files, 'Checkmarks.csv');
+  return checkmarks ? { checkmarks, habits: findFile(files, 'Habits.csv') } : null;
+};
+
+// Loop's Checkmarks.csv on its own: a Date column followed by one column of checkmark codes per habit
+export const isLoopCheckmarks = (headers: string[], rows: string[][]): boolean => {
+  if (headers.length < 2 || headers[0].trim().toLowerCase() !== 'date') return false;
+  return rows.slice(0, 20).every(row => row.slice(1).every(cell => /^(-?\d+(\.\d+)?|YES_MANUAL|YES_AUTO|NO|SKIP|UNKNOWN)?$/.test(cell.trim())));
+};
+
+export const importLoop = (checkmarksCsv: string, habitsCsv: string | undefined, local: AppData): TrackerImportResult => {
+  const issues: ValidationIssue[] = [];
+  const [headers = [], ...rows] = parseCsv(checkmarksCsv);
+
+  // Habit details by name, when Habits.csv is available
+  const details = new Map<string, Record<string, string>>();
+  if (habitsCsv) {
+    const [habitHeaders = [], ...habitRows] = parseCsv(habitsCsv);
+    habitRows.forEach(row => {
+      const record: Record<string, string> = {};
+      habitHeaders.forEach((header, i) => { record[header.trim()] = (row[i] ?? '').trim(); });
+      if (record.Name) details.set(record.Name, record);
+    });
+  }
+
+  // Loop ends each line with a comma, which leaves an unnamed last column
+  const columns = headers.map((name, index) => ({ name: name.trim(), index })).slice(1).filter(column => column.name);
+
+  const habits: Habit[] = columns.map(({ name }, i) => {
+    const detail = details.get(name) || {};
+    const colorField = detail.Color || '';
+    const color = /^\d+$/.test(colorField) ? LOOP_PALETTE[Number(colorField) % LOOP_PALETTE.length] : colorField;
+    const isNumerical = detail.Type === '1';
+    const target = Number(detail['Target Value']);
+    const habit: Habit = {
+      id: generateId(),
+      title: name,
+      description: detail.Description || detail.Question || undefined,
+      color: color ? nearestHabitColor(color) : HABIT_COLORS[i % HABIT_COLORS.length].value,
+      createdAt: new Date().toISOString(),
+      logs: {},
+      archived: detail['Archived?'] === 'true',
+    };
+    if (isNumerical && target > 0) {
+      habit.kind = 'measurable';
+      habit.target = target;
+      if (detail.Unit) habit.unit = detail.Unit;
+    }
+    const schedule = loopSchedule(Number(detail.FrequencyNumerator || detail.NumRepetitions), Number(detail.FrequencyDenominator || detail.Interval));
+    if (schedule) habit.schedule = schedule;
+    return habit;
+  });
+
+  rows.forEach((row, r) => {
+    const date = (row[0] ?? '').trim();
+    if (!isValidDateKey(date)) {
+      issues.push({ path: `Checkmarks.csv row ${r + 2} (date)`, code: 'badDate', effect: 'log' });
+      return;
+    }
+    habits.forEach((habit, i) => {
+      const cell = (row[columns[i].index] ?? '').trim();
+      let log: DailyLog | undefined;
+      if (habit.kind === 'measurable') {
+        // Loop keeps numeric entries in thousandths; a plain integer cell is that raw amount
+        const raw = Number(cell);
+        if (cell && isFinite(raw) && raw > 0) {
+          const value = cell.includes('.') ? raw : raw / 1000;
+          log = { date, completed: value >= habit.target!, value };
+        }
+      } else if (LOOP_CHECKED.includes(cell)) {
+        log = { date, completed: true };
+      }
+      if (log) habit.logs[date] = log;
+    });
+  });
+
+  habits.forEach(habit => {
+    const firstDate = Object.keys(habit.logs).sort()[0];
+    if (firstDate) habit.createdAt = new Date(`${firstDate}T00:00:00`).toISOString();
+  });
+
+  return {
+    data: { schemaVersion: local.schemaVersion, habits, settings: local.settings },
+    issues,
+  };
+};
+
+// --- Habitica ---
+// Its task history CSV has one row per scoring event: "Task Name,Task ID,Task Type,Date,Value".
+// Every row is a completion; the Value column is Habitica's task value, not an amount.
+
+export const getHabiticaMapping = (headers: string[]): CsvMapping | null => {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const title = normalized.indexOf('task name');
+  const date = normalized.indexOf('date');
+  if (title === -1 || date === -1 || !normalized.includes('task type')) return null;
+  return { habit_title: title, date };
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { getJournalEntries, getMatchRanges, getSearchTerms, JournalFilter } from './journal';
+import { makeHabit } from './testing';
+
+const withNotes = (notes: Record<string, string | undefined>) => {
+  return Object.fromEntries(Object.entries(notes).map(([date, note]) => [date, { date, completed: true, note }]));
+};
+
+const habits = [
+  makeHabit([], { id: 'run', logs: withNotes({ '2024-03-02': 'Knee pain after 5k', '2024-03-05': 'Easy pace', '2024-03-06': undefined }) }),
+  makeHabit([], { id: 'gym', logs: withNotes({ '2024-03-05': 'Squats, left knee felt sore', '2024-02-20': 'Deadlift PR' }), archived: true }),
+];
+
+const list = (filter: Partial<JournalFilter>) => getJournalEntries(habits, { query: '', habitIds: [], ...filter })
+  .map(({ habit, log }) => `${log.date} ${habit.id}`);
+
+describe('getJournalEntries', () => {
+  it('lists every note newest first, in habit order on the same day', () => {
+    expect(list({})).toEqual(['2024-03-05 run', '2024-03-05 gym', '2024-03-02 run', '2024-02-20 gym']);
+  });
+
+  it('matches every search term anywhere in the note, ignoring case', () => {
+    expect(list({ query: 'knee' })).toEqual(['2024-03-05 gym', '2024-03-02 run']);
+    expect(list({ query: '  PAIN knee ' })).toEqual(['2024-03-02 run']);
+    expect(list({ query: 'knee swim' })).toEqual([]);
+  });
+
+  it('filters by habit and by an inclusive date range', () => {
+    expect(list({ habitIds: ['gym'] })).toEqual(['2024-03-05 gym', '2024-02-20 gym']);
+    expect(list({ start: '2024-03-02', end: '2024-03-05' })).toEqual(['2024-03-05 run', '2024-03-05 gym', '2024-03-02 run']);
+    expect(list({ end: '2024-03-01' })).toEqual(['2024-02-20 gym']);
+  });
+});
+
+describe('getMatchRanges', () => {
+  it('finds every occurrence and merges overlapping ones', () => {
+    expect(getMatchRanges('Knee pain, knee ok', getSearchTerms('knee'))).toEqual([[0, 4], [11, 15]]);
+    expect(getMatchRanges('kneepad', getSearchTerms('knee nee pad'))).toEqual([[0, 7]]);
+    expect(getMatchRanges('Easy pace', [])).toEqual([]);
+  });
+
+  it('maps matches back to the original text when lowercasing changes its length', () => {
+    // 'İ' lowercases to two code units, 'i' and a combining dot
+    const text = 'İzmir knee';
+    const [[start, end]] = getMatchRanges(text, getSearchTerms('KNEE'));
+    expect(text.slice(start, end)).toBe('knee');
+    expect(getMatchRanges(text, getSearchTerms('i̇zmir'))).toEqual([[0, 5]]);
+  });
+});
@@ -0,0 +1,81 @@
+import { DailyLog, Habit } from '../types';
+
+// The journal: every log note across habits, searchable, for reading notes as a diary
+
+export interface JournalEntry {
+  habit: Habit;
+  log: DailyLog & { note: string };
+}
+
+export interface JournalFilter {
+  query: string;
+  habitIds: string[]; // Empty for all habits
+  start?: string; // YYYY-MM-DD, inclusive
+  end?: string;
+}
+
+// Lowercased one character at a time, remembering which characters of `text` each code unit of the
+// result came from: lowercasing can change the length (e.g. 'İ' becomes 'i̇'), so offsets found in
+// the lowercased copy can't be used on the original as they are
+const toSearchText = (text: string) => {
+  let lower = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const folded = char.toLocaleLowerCase();
+    for (let i = 0; i < folded.length; i++) {
+      starts.push(index);
+      ends.push(index + char.length);
+    }
+    lower += folded;
+    index += char.length;
+  }
+  return { lower, starts, ends };
+};
+
+// Search terms are matched case-insensitively and independently, so "knee pain" also finds "pain in the left knee"
+export const getSearchTerms = (query: string): string[] => {
+  return toSearchText(query).lower.split(/\s+/).filter(Boolean);
+};
+
+// Notes newest first; on the same day, in habit order. Archived habits keep their notes here.
+export const getJournalEntries = (habits: Habit[], filter: JournalFilter): JournalEntry[] => {
+  const terms = getSearchTerms(filter.query);
+  const entries: JournalEntry[] = [];
+
+  habits.forEach(habit => {
+    if (filter.habitIds.length > 0 && !filter.habitIds.includes(habit.id)) return;
+    Object.values(habit.logs).forEach((log: DailyLog) => {
+      if (!log.note) return;
+      if (filter.start && log.date < filter.start) return;
+      if (filter.end && log.date > filter.end) return;
+      const text = toSearchText(log.note).lower;
+      if (!terms.every(term => text.includes(term))) return;
+      entries.push({ habit, log: log as JournalEntry['log'] });
+    });
+  });
+
+  const order = new Map(habits.map((h, i) => [h.id, i]));
+  return entries.sort((a, b) => b.log.date.localeCompare(a.log.date) || order.get(a.habit.id)! - order.get(b.habit.id)!);
+};
+
+// Where the search terms appear in a note, as merged [start, end) ranges for highlighting
+export const getMatchRanges = (text: string, terms: string[]): [number, number][] => {
+  const { lower, starts, ends } = toSearchText(text);
+  const ranges: [number, number][] = [];
+  terms.forEach(term => {
+    for (let i = lower.indexOf(term); i !== -1; i = lower.indexOf(term, i + term.length)) {
+      ranges.push([starts[i], ends[i + term.length - 1]]);
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  ranges.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  });
+  return merged;
+};
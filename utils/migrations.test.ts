@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migrateAppData, SchemaVersionError } from './migrations';
+
+describe('migrateAppData', () => {
+  it('upgrades unversioned data, dropping log colors and defaulting the week to Sunday', () => {
+    const data = migrateAppData({
+      habits: [{ id: 'h1', title: 'Read', logs: { '2024-03-10': { completed: 1, color: '#fff' } } }],
+      settings: { theme: 'dark' },
+    });
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(data.habits[0]).toMatchObject({ archived: false, logs: { '2024-03-10': { date: '2024-03-10', completed: true } } });
+    expect(data.habits[0].logs['2024-03-10']).not.toHaveProperty('color');
+    expect(data.settings).toMatchObject({ theme: 'dark', weekStart: 'sunday', splitMonths: true });
+  });
+
+  it('keeps a week start that was already set', () => {
+    expect(migrateAppData({ schemaVersion: 1, habits: [], settings: { weekStart: 'monday' } }).settings.weekStart).toBe('monday');
+  });
+
+  it('rejects data from a newer version and data without habits', () => {
+    expect(() => migrateAppData({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, habits: [] })).toThrow(SchemaVersionError);
+    expect(() => migrateAppData({ settings: {} })).toThrow('missing habits');
+    expect(() => migrateAppData(null)).toThrow('missing habits');
+  });
+});
@@ -0,0 +1,79 @@
+import { AppData } from '../types';
+
+// Bump this and add a step below whenever the stored shape of AppData changes.
+// Data saved before versioning existed has no schemaVersion and counts as version 0.
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export class SchemaVersionError extends Error {
+  constructor(public version: number) {
+    super(`Data was saved by a newer version of HabitPulse (schema ${version}, this app supports up to ${CURRENT_SCHEMA_VERSION})`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+// Stored data before it is known to be valid: an object with a habits array, anything else unchecked
+type RawData = Record<string, unknown> & { habits: unknown[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isRawData = (value: unknown): value is RawData => isRecord(value) && Array.isArray(value.habits);
+
+// Each step takes data at version N - 1 and returns it at version N.
+// Steps describe the shape at the time they were written, so they must never change afterwards.
+const MIGRATIONS: Record<number, (data: RawData) => RawData> = {
+  // 1: logs lost their per-day `color` (the habit's color is used instead), and every log is keyed by its own date
+  1: (data) => ({
+    ...data,
+    habits: data.habits.map(habit => {
+      if (!isRecord(habit)) return habit;
+      const logs: Record<string, unknown> = {};
+      Object.entries(isRecord(habit.logs) ? habit.logs : {}).forEach(([dateKey, log]) => {
+        if (!isRecord(log)) return;
+        const { color, ...rest } = log;
+        logs[dateKey] = { ...rest, date: dateKey, completed: !!rest.completed };
+      });
+      return { ...habit, logs, archived: !!habit.archived };
+    }),
+  }),
+
+  // 2: settings added after the first release (splitMonths) get their defaults instead of being patched on import.
+  // The week start default is Sunday, as the app used before this step.
+  2: (data) => {
+    const settings = isRecord(data.settings) ? data.settings : {};
+    return {
+      ...data,
+      settings: {
+        theme: 'system',
+        userName: 'User',
+        language: 'zh',
+        weekStart: 'sunday',
+        ...settings,
+        splitMonths: settings.splitMonths ?? true,
+      },
+    };
+  },
+};
+
+export const getSchemaVersion = (data: unknown): number => {
+  return isRecord(data) && typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+};
+
+// Upgrade stored, imported or downloaded data to the current shape, one step at a time.
+// Throws SchemaVersionError for data from a newer app rather than guessing at it.
+export const migrateAppData = (raw: unknown): AppData => {
+  if (!isRawData(raw)) {
+    throw new Error('Invalid data: missing habits');
+  }
+
+  const version = getSchemaVersion(raw);
+  if (version > CURRENT_SCHEMA_VERSION) throw new SchemaVersionError(version);
+  if (version === CURRENT_SCHEMA_VERSION) return raw as unknown as AppData;
+
+  let data = raw;
+  for (let next = version + 1; next <= CURRENT_SCHEMA_VERSION; next++) {
+    data = MIGRATIONS[next](data);
+  }
+  return { ...data, schemaVersion: CURRENT_SCHEMA_VERSION } as unknown as AppData;
+};
@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getDailyQuote, QUOTES } from './quotes';
+
+describe('getDailyQuote', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps the same quote all day', () => {
+    expect(getDailyQuote(new Date(2024, 4, 15, 0, 1))).toBe(getDailyQuote(new Date(2024, 4, 15, 23, 59)));
+  });
+
+  it('moves to the next quote every day', () => {
+    expect(getDailyQuote(new Date(2024, 0, 1))).toBe(QUOTES[1]);
+    expect(getDailyQuote(new Date(2024, 0, 2))).toBe(QUOTES[2]);
+  });
+
+  it('changes at midnight after the clocks go forward or back', () => {
+    const springIndex = QUOTES.indexOf(getDailyQuote(new Date(2024, 2, 10, 0, 30)));
+    expect(getDailyQuote(new Date(2024, 2, 11, 0, 30))).toBe(QUOTES[(springIndex + 1) % QUOTES.length]);
+    const fallIndex = QUOTES.indexOf(getDailyQuote(new Date(2024, 10, 3, 0, 30)));
+    expect(getDailyQuote(new Date(2024, 10, 4, 0, 30))).toBe(QUOTES[(fallIndex + 1) % QUOTES.length]);
+  });
+
+  it('uses the current day by default', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2024, 6, 4, 12, 0));
+    expect(getDailyQuote()).toBe(getDailyQuote(new Date(2024, 6, 4)));
+  });
+});
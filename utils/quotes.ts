@@ -1,3 +1,4 @@
+import { differenceInCalendarDays } from 'date-fns';
 
 export const QUOTES = [
   "The only way to do great work is to love what you do.",
@@ -22,13 +23,10 @@ export const QUOTES = [
   "日拱一卒，功不唐捐。"
 ];
 
-export function getDailyQuote(): string {
-  // Use current date to pick a consistent quote for the day
-  const now = new Date();
-  const start = new Date(now.getFullYear(), 0, 0);
-  const diff = now.getTime() - start.getTime();
-  const oneDay = 1000 * 60 * 60 * 24;
-  const dayOfYear = Math.floor(diff / oneDay);
-  
+export function getDailyQuote(date: Date = new Date()): string {
+  // Use the day of the year to pick a consistent quote for the day. Counted in calendar days,
+  // since dividing milliseconds by 24h is off by one after a DST change.
+  const dayOfYear = differenceInCalendarDays(date, new Date(date.getFullYear(), 0, 0));
+
   return QUOTES[dayOfYear % QUOTES.length];
 }
@@ -0,0 +1,71 @@
+import { differenceInCalendarDays, endOfMonth, endOfWeek, startOfDay, startOfMonth, startOfWeek, addDays, isAfter } from 'date-fns';
+import { Habit, HabitSchedule, Language, WeekStart } from '../types';
+import { t } from './i18n';
+import { toDateKey } from './date';
+
+export const DAILY_SCHEDULE: HabitSchedule = { type: 'daily' };
+
+// - due: the habit is expected that day (a completed day always counts as due)
+// - optional: a times-per-period habit that can still reach its quota without this day
+// - off: nothing expected, e.g. a Tuesday for a Mon/Wed/Fri habit
+export type DayStatus = 'due' | 'optional' | 'off';
+
+export const getSchedule = (habit: Habit): HabitSchedule => habit.schedule || DAILY_SCHEDULE;
+
+export const getDayStatus = (habit: Habit, date: Date, weekStart: WeekStart): DayStatus => {
+  if (habit.logs[toDateKey(date)]?.completed) return 'due';
+
+  const schedule = getSchedule(habit);
+  switch (schedule.type) {
+    case 'daily':
+      return 'due';
+    case 'weekdays':
+      return schedule.days.includes(date.getDay()) ? 'due' : 'off';
+    case 'interval': {
+      const every = Math.max(1, schedule.every);
+      const offset = differenceInCalendarDays(date, new Date(habit.createdAt));
+      return ((offset % every) + every) % every === 0 ? 'due' : 'off';
+    }
+    case 'timesPerWeek':
+    case 'timesPerMonth': {
+      const weekStartsOn = weekStart === 'monday' ? 1 : 0;
+      const periodStart = schedule.type === 'timesPerWeek' ? startOfWeek(date, { weekStartsOn }) : startOfMonth(date);
+      const periodEnd = schedule.type === 'timesPerWeek' ? endOfWeek(date, { weekStartsOn }) : endOfMonth(date);
+
+      let done = 0;
+      for (let d = periodStart; !isAfter(d, periodEnd); d = addDays(d, 1)) {
+        if (habit.logs[toDateKey(d)]?.completed) done++;
+      }
+      const needed = schedule.times - done;
+      if (needed <= 0) return 'off';
+
+      // Only due once skipping the day would make the quota unreachable
+      const daysLeft = differenceInCalendarDays(periodEnd, startOfDay(date)) + 1;
+      return daysLeft <= needed ? 'due' : 'optional';
+    }
+  }
+};
+
+export const isHabitDue = (habit: Habit, date: Date, weekStart: WeekStart): boolean => {
+  return getDayStatus(habit, date, weekStart) === 'due';
+};
+
+export const describeSchedule = (schedule: HabitSchedule | undefined, lang: Language): string => {
+  if (!schedule) return t(lang, 'scheduleDaily');
+  switch (schedule.type) {
+    case 'daily':
+      return t(lang, 'scheduleDaily');
+    case 'weekdays': {
+      const labels = lang === 'zh'
+        ? ['周日', '周一', '周二', '周三', '周四', '周五', '周六']
+        : ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+      return [...schedule.days].sort((a, b) => a - b).map(d => labels[d]).join(lang === 'zh' ? '、' : ', ');
+    }
+    case 'timesPerWeek':
+      return t(lang, 'scheduleTimesPerWeekLabel', { count: schedule.times });
+    case 'timesPerMonth':
+      return t(lang, 'scheduleTimesPerMonthLabel', { count: schedule.times });
+    case 'interval':
+      return t(lang, 'scheduleIntervalLabel', { count: schedule.every });
+  }
+};
@@ -0,0 +1,233 @@
+import { AppData, DailyLog, Habit } from '../types';
+
+// IndexedDB storage for AppData. Habits and logs live in their own stores so a check-in writes one
+// log record instead of the whole data set. Falls back to the old localStorage blob when IndexedDB
+// can't be opened (e.g. some private browsing modes).
+
+const DB_NAME = 'habitpulse';
+const DB_VERSION = 1;
+const HABITS = 'habits';
+const LOGS = 'logs';
+const META = 'meta';
+
+// The single localStorage blob used before IndexedDB, read once for the migration
+export const LEGACY_STORAGE_KEY = 'habitpulse_data';
+// Mirrored for the theme script in index.html, which runs before IndexedDB could answer
+export const THEME_STORAGE_KEY = 'habitpulse_theme';
+const CHANNEL_NAME = 'habitpulse_data';
+
+type HabitRecord = Omit<Habit, 'logs'>;
+type LogRecord = DailyLog & { habitId: string };
+type MetaKey = 'schemaVersion' | 'settings' | 'deleted' | 'habitOrder';
+
+export interface AppStorage {
+  // The stored data upgraded with `migrate`, or null on a fresh install
+  load: () => Promise<AppData | null>;
+  // Writes what changed between two states; `prev` must be what was last loaded or saved, null
+  // replaces everything
+  save: (prev: AppData | null, next: AppData) => Promise<void>;
+  // Called when another tab saved
+  subscribe: (listener: () => void) => () => void;
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+});
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('IndexedDB is not available'));
+    return;
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore(HABITS, { keyPath: 'id' });
+    // Keyed [habitId, date], so all logs of a habit form one key range
+    db.createObjectStore(LOGS, { keyPath: ['habitId', 'date'] });
+    db.createObjectStore(META);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+});
+
+const toHabitRecord = (habit: Habit): HabitRecord => {
+  const { logs, ...record } = habit;
+  return record;
+};
+
+const habitLogRange = (habitId: string) => IDBKeyRange.bound([habitId, ''], [habitId, '\uffff']);
+
+// Fields other than the logs that differ, compared by reference (all updates are immutable)
+const hasHabitFieldChanges = (a: Habit, b: Habit) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  keys.delete('logs');
+  return Array.from(keys).some(key => a[key as keyof Habit] !== b[key as keyof Habit]);
+};
+
+const readAll = async (db: IDBDatabase): Promise<Record<string, unknown> | null> => {
+  const tx = db.transaction([HABITS, LOGS, META], 'readonly');
+  const meta = tx.objectStore(META);
+  const [schemaVersion, settings, deleted, habitOrder, habitRecords, logRecords] = await Promise.all([
+    requestResult(meta.get('schemaVersion')),
+    requestResult(meta.get('settings')),
+    requestResult(meta.get('deleted')),
+    requestResult(meta.get('habitOrder')),
+    requestResult(tx.objectStore(HABITS).getAll() as IDBRequest<HabitRecord[]>),
+    requestResult(tx.objectStore(LOGS).getAll() as IDBRequest<LogRecord[]>),
+  ]);
+  if (schemaVersion === undefined) return null;
+
+  const habits = new Map<string, Habit>(habitRecords.map(record => [record.id, { ...record, logs: {} }]));
+  logRecords.forEach(({ habitId, ...log }) => {
+    const habit = habits.get(habitId);
+    if (habit) habit.logs[log.date] = log;
+  });
+  const order: string[] = Array.isArray(habitOrder) ? habitOrder : [];
+  const ordered = [
+    ...order.filter(id => habits.has(id)).map(id => habits.get(id)!),
+    ...Array.from(habits.values()).filter(habit => !order.includes(habit.id)),
+  ];
+
+  const raw: Record<string, unknown> = { schemaVersion, habits: ordered, settings };
+  if (deleted !== undefined) raw.deleted = deleted;
+  return raw;
+};
+
+// Without `prev`, the stores are cleared first in the same transaction
+const writeChanges = async (db: IDBDatabase, prev: AppData | null, next: AppData) => {
+  const tx = db.transaction([HABITS, LOGS, META], 'readwrite');
+  if (!prev) [HABITS, LOGS, META].forEach(name => tx.objectStore(name).clear());
+  const habitStore = tx.objectStore(HABITS);
+  const logStore = tx.objectStore(LOGS);
+  const meta = tx.objectStore(META);
+
+  const putMeta = (key: MetaKey, value: unknown) => {
+    if (value === undefined) meta.delete(key);
+    else meta.put(value, key);
+  };
+  if (prev?.schemaVersion !== next.schemaVersion) putMeta('schemaVersion', next.schemaVersion);
+  if (prev?.settings !== next.settings) putMeta('settings', next.settings);
+  if (!prev || prev.deleted !== next.deleted) putMeta('deleted', next.deleted);
+  const order = next.habits.map(h => h.id);
+  if (!prev || prev.habits.map(h => h.id).join('\n') !== order.join('\n')) putMeta('habitOrder', order);
+
+  const prevHabits = new Map((prev?.habits || []).map(h => [h.id, h]));
+  next.habits.forEach(habit => {
+    const before = prevHabits.get(habit.id);
+    prevHabits.delete(habit.id);
+    if (before === habit) return;
+    if (!before || hasHabitFieldChanges(before, habit)) habitStore.put(toHabitRecord(habit));
+    if (before?.logs === habit.logs) return;
+
+    const beforeLogs = before?.logs || {};
+    Object.entries(habit.logs).forEach(([date, log]) => {
+      if (beforeLogs[date] !== log) logStore.put({ ...log, date, habitId: habit.id });
+    });
+    Object.keys(beforeLogs).forEach(date => {
+      if (!(date in habit.logs)) logStore.delete([habit.id, date]);
+    });
+  });
+  // Whatever is left was removed
+  prevHabits.forEach((_, id) => {
+    habitStore.delete(id);
+    logStore.delete(habitLogRange(id));
+  });
+
+  await transactionDone(tx);
+};
+
+const mirrorTheme = (data: AppData) => {
+  try {
+    localStorage.setItem(THEME_STORAGE_KEY, data.settings.theme);
+  } catch (error) {
+    // Only used to avoid a flash of the wrong theme
+  }
+};
+
+// Throws when the blob can't be read, which is not the same as there being none
+const readLegacy = (): unknown => {
+  const item = localStorage.getItem(LEGACY_STORAGE_KEY);
+  return item ? JSON.parse(item) : null;
+};
+
+const createChannel = () => typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+
+const indexedDbStorage = (db: IDBDatabase, migrate: (raw: unknown) => AppData): AppStorage => {
+  const channel = createChannel();
+  return {
+    load: async () => {
+      const stored = await readAll(db);
+      if (stored) {
+        const data = migrate(stored);
+        // Persist what the migrations changed, later saves only write the differences
+        if (stored.schemaVersion !== data.schemaVersion) await writeChanges(db, null, data);
+        return data;
+      }
+
+      // One-time move from the localStorage blob; it is only removed once the copy is committed.
+      // An unreadable blob is left where it is (saves here never touch it) rather than blocking the app.
+      let legacy: unknown;
+      try {
+        legacy = readLegacy();
+      } catch (error) {
+        console.warn(`Error reading localStorage key "${LEGACY_STORAGE_KEY}":`, error);
+        return null;
+      }
+      if (!legacy) return null;
+      const data = migrate(legacy);
+      await writeChanges(db, null, data);
+      mirrorTheme(data);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      // Years of history shouldn't be evicted under storage pressure
+      navigator.storage?.persist?.().catch(() => {});
+      return data;
+    },
+    save: async (prev, next) => {
+      await writeChanges(db, prev, next);
+      if (prev?.settings.theme !== next.settings.theme) mirrorTheme(next);
+      channel?.postMessage('changed');
+    },
+    subscribe: (listener) => {
+      if (!channel) return () => {};
+      const handleMessage = () => listener();
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+  };
+};
+
+const localStorageFallback = (migrate: (raw: unknown) => AppData): AppStorage => ({
+  load: async () => {
+    const legacy = readLegacy();
+    return legacy ? migrate(legacy) : null;
+  },
+  save: async (_prev, next) => {
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(next));
+    mirrorTheme(next);
+  },
+  subscribe: (listener) => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === LEGACY_STORAGE_KEY) listener();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  },
+});
+
+export const openAppStorage = async (migrate: (raw: unknown) => AppData): Promise<AppStorage> => {
+  try {
+    return indexedDbStorage(await openDatabase(), migrate);
+  } catch (error) {
+    console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+    return localStorageFallback(migrate);
+  }
+};
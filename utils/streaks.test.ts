@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { HabitSchedule } from '../types';
+import { toDateKey } from './date';
+import { computeStreaks, getHabitStreaks, getOverallStreaks } from './streaks';
+import { makeHabit } from './testing';
+
+// The test run uses America/New_York (see vite.config.ts): clocks went forward on 2024-03-10
+// and back on 2024-11-03, so those days are 23 and 25 hours long.
+
+const range = (from: number, to: number, month: string) => {
+  const dates: string[] = [];
+  for (let d = from; d <= to; d++) dates.push(`${month}-${String(d).padStart(2, '0')}`);
+  return dates;
+};
+
+const weekly = (times: number): HabitSchedule => ({ type: 'timesPerWeek', times });
+
+describe('computeStreaks', () => {
+  it('does not end a run on today', () => {
+    const done = new Set(['2024-05-01', '2024-05-02']);
+    const result = computeStreaks(new Date(2024, 4, 1), d => done.has(toDateKey(d)), () => true, {
+      today: new Date(2024, 4, 3, 22, 0),
+    });
+    expect(result).toMatchObject({ current: 2, best: 2 });
+  });
+
+  it('bridges missed days with the month\'s freezes', () => {
+    const h = makeHabit(['2024-05-01', '2024-05-02', '2024-05-04', '2024-05-06']);
+    const today = new Date(2024, 4, 6, 9, 0);
+    expect(getHabitStreaks(h, 'monday', { today }).current).toBe(1);
+    const frozen = getHabitStreaks(h, 'monday', { today, freezesPerMonth: 2 });
+    expect(frozen.current).toBe(4);
+    expect(frozen.history.at(-1)?.frozen).toEqual(['2024-05-03', '2024-05-05']);
+  });
+
+  it('gives every month its own freezes', () => {
+    const h = makeHabit(['2024-05-30', '2024-06-01', '2024-06-03']);
+    const result = getHabitStreaks(h, 'monday', { today: new Date(2024, 5, 3), freezesPerMonth: 1 });
+    expect(result.current).toBe(3);
+    expect(result.history.at(-1)?.frozen).toEqual(['2024-05-31', '2024-06-02']);
+  });
+});
+
+describe('streaks across DST changes', () => {
+  it('counts each day once over the spring-forward night', () => {
+    const h = makeHabit(range(7, 12, '2024-03'));
+    // Just after midnight on the 11th, the first full day after the 23-hour day
+    expect(getHabitStreaks(h, 'sunday', { today: new Date(2024, 2, 11, 0, 30) }).current).toBe(5);
+    expect(getHabitStreaks(h, 'sunday', { today: new Date(2024, 2, 12, 23, 59) }).current).toBe(6);
+  });
+
+  it('counts each day once over the fall-back night', () => {
+    const h = makeHabit(range(1, 5, '2024-11'));
+    expect(getHabitStreaks(h, 'sunday', { today: new Date(2024, 10, 3, 23, 30) }).current).toBe(3);
+    expect(getHabitStreaks(h, 'sunday', { today: new Date(2024, 10, 5, 0, 15) }).current).toBe(5);
+  });
+
+  it('breaks on a day missed right at the change', () => {
+    const h = makeHabit(['2024-03-09', '2024-03-11', '2024-03-12']);
+    const result = getHabitStreaks(h, 'monday', { today: new Date(2024, 2, 12, 12, 0) });
+    expect(result.current).toBe(2);
+    expect(result.history.map(r => [r.start, r.end])).toEqual([
+      ['2024-03-09', '2024-03-09'],
+      ['2024-03-11', '2024-03-12'],
+    ]);
+  });
+});
+
+describe('getOverallStreaks', () => {
+  it('counts a day when any habit was done', () => {
+    const habits = [makeHabit(['2024-05-01', '2024-05-03']), makeHabit(['2024-05-02'], { id: 'h2' })];
+    expect(getOverallStreaks(habits, 'monday', { today: new Date(2024, 4, 3) }).current).toBe(3);
+  });
+
+  it('ignores archived habits for what was due', () => {
+    const habits = [
+      makeHabit(['2024-05-01', '2024-05-03'], { schedule: { type: 'weekdays', days: [3, 5] } }),
+      makeHabit([], { id: 'h2', archived: true }),
+    ];
+    // 2024-05-02 is a Thursday: only the archived daily habit was due
+    expect(getOverallStreaks(habits, 'monday', { today: new Date(2024, 4, 3) }).current).toBe(2);
+  });
+
+  it('ignores check-ins of archived habits', () => {
+    const habits = [makeHabit(['2024-05-01', '2024-05-03']), makeHabit(['2024-05-02'], { id: 'h2', archived: true })];
+    expect(getOverallStreaks(habits, 'monday', { today: new Date(2024, 4, 3) }).current).toBe(1);
+  });
+
+  it('is zero without active habits', () => {
+    expect(getOverallStreaks([makeHabit(['2024-05-01'], { archived: true })], 'monday', { today: new Date(2024, 4, 1) })).toEqual({ current: 0, best: 0, history: [] });
+  });
+
+  // Once a week, done on Saturday 2024-03-02 and Sunday 2024-03-10. Weeks starting Monday put
+  // those in two weeks with no gap; weeks starting Sunday leave the week of 3-9 March empty.
+  it('follows the week start for weekly quotas', () => {
+    const habits = [makeHabit(['2024-03-02', '2024-03-10'], { createdAt: '2024-02-26T12:00:00.000Z', schedule: weekly(1) })];
+    const today = new Date(2024, 2, 10, 20, 0);
+    expect(getOverallStreaks(habits, 'monday', { today })).toMatchObject({ current: 2, best: 2 });
+    expect(getOverallStreaks(habits, 'sunday', { today })).toMatchObject({ current: 1, best: 1 });
+  });
+
+  it('keeps a weekly streak over a week crossing the fall-back night', () => {
+    const habits = [makeHabit(['2024-10-29', '2024-11-06'], { createdAt: '2024-10-28T12:00:00.000Z', schedule: weekly(1) })];
+    expect(getOverallStreaks(habits, 'monday', { today: new Date(2024, 10, 6, 21, 0) }).current).toBe(2);
+  });
+});
@@ -0,0 +1,101 @@
+import { addDays, format, isAfter, isSameDay, startOfDay } from 'date-fns';
+import { Habit, WeekStart } from '../types';
+import { toDateKey } from './date';
+import { getHabitStartDate } from './habits';
+import { isHabitDue } from './schedule';
+
+export interface StreakRun {
+  start: string; // YYYY-MM-DD of the first completed day
+  end: string; // YYYY-MM-DD of the last completed day
+  length: number; // Completed days in the run; frozen days are bridged but not counted
+  frozen: string[]; // Missed due days covered by a freeze
+}
+
+export interface StreakResult {
+  current: number;
+  best: number;
+  history: StreakRun[]; // Oldest first; the last run is the ongoing one when current > 0
+}
+
+export interface StreakOptions {
+  freezesPerMonth?: number; // Missed due days per calendar month that don't break a streak
+  today?: Date;
+}
+
+// Walks forward day by day. A completed day extends the run, a day that was not due is skipped,
+// and a missed due day either spends one of the month's freezes or ends the run.
+// Today never ends a run, since there is still time to check in.
+export const computeStreaks = (
+  start: Date,
+  isDone: (date: Date) => boolean,
+  isDue: (date: Date) => boolean,
+  { freezesPerMonth = 0, today = new Date() }: StreakOptions = {}
+): StreakResult => {
+  const end = startOfDay(today);
+  const history: StreakRun[] = [];
+  const freezesUsed: Record<string, number> = {};
+  let run: StreakRun | null = null;
+
+  for (let d = startOfDay(start); !isAfter(d, end); d = addDays(d, 1)) {
+    const key = toDateKey(d);
+    if (isDone(d)) {
+      if (!run) run = { start: key, end: key, length: 0, frozen: [] };
+      run.length++;
+      run.end = key;
+    } else if (run && !isSameDay(d, end) && isDue(d)) {
+      const month = format(d, 'yyyy-MM');
+      if ((freezesUsed[month] || 0) < freezesPerMonth) {
+        freezesUsed[month] = (freezesUsed[month] || 0) + 1;
+        run.frozen.push(key);
+      } else {
+        history.push(run);
+        run = null;
+      }
+    }
+  }
+
+  let current = 0;
+  if (run) {
+    history.push(run);
+    current = run.length;
+  }
+
+  const best = history.reduce((max, r) => Math.max(max, r.length), 0);
+  return { current, best, history };
+};
+
+export const getHabitStreaks = (habit: Habit, weekStart: WeekStart, options: StreakOptions = {}): StreakResult => {
+  return computeStreaks(
+    getHabitStartDate(habit),
+    date => !!habit.logs[toDateKey(date)]?.completed,
+    date => isHabitDue(habit, date, weekStart),
+    options
+  );
+};
+
+// "Any habit done" streak across all habits. Days when no habit was due are skipped.
+export const getOverallStreaks = (habits: Habit[], weekStart: WeekStart, options: StreakOptions = {}): StreakResult => {
+  const active = habits.filter(h => !h.archived);
+  const today = options.today || new Date();
+  if (active.length === 0) return { current: 0, best: 0, history: [] };
+
+  // Archived habits are left out of both the activity and the due days
+  const activity = new Set<string>();
+  active.forEach(habit => {
+    Object.values(habit.logs).forEach(log => {
+      if (log.completed) activity.add(log.date);
+    });
+  });
+
+  const start = active.reduce((min, habit) => {
+    const habitStart = getHabitStartDate(habit);
+    return habitStart < min ? habitStart : min;
+  }, startOfDay(today));
+
+  return computeStreaks(
+    start,
+    date => activity.has(toDateKey(date)),
+    date => active.some(habit => isHabitDue(habit, date, weekStart)),
+    options
+  );
+};
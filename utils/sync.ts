@@ -0,0 +1,128 @@
+import { AppData, DailyLog, Habit } from '../types';
+
+export const logTombstoneKey = (habitId: string, date: string) => `${habitId}/${date}`;
+
+// Everything about a habit except its logs and bookkeeping, to tell metadata edits apart from check-ins
+const habitMetaSignature = (habit: Habit) => {
+  const { logs, updatedAt, ...meta } = habit;
+  return JSON.stringify(meta);
+};
+
+const habitStamp = (habit: Habit) => habit.updatedAt || habit.createdAt;
+const logStamp = (log: DailyLog) => log.updatedAt || log.timestamp || '';
+
+// Compare a state transition and record what changed: changed habits and logs get an updatedAt,
+// removed ones leave a tombstone. Relies on updates creating new objects for whatever they touch.
+export const trackChanges = (prev: AppData, next: AppData, now: string = new Date().toISOString()): AppData => {
+  if (prev.habits === next.habits) return next;
+
+  const deleted = { ...(next.deleted || prev.deleted || {}) };
+  const prevById = new Map(prev.habits.map(h => [h.id, h]));
+  const nextIds = new Set(next.habits.map(h => h.id));
+
+  const habits = next.habits.map(habit => {
+    const before = prevById.get(habit.id);
+    if (before === habit) return habit;
+    if (!before) return { ...habit, updatedAt: now };
+
+    let updated = habit;
+    if (habitMetaSignature(before) !== habitMetaSignature(habit)) {
+      updated = { ...updated, updatedAt: now };
+    }
+
+    if (before.logs !== habit.logs) {
+      let logs = habit.logs;
+      Object.keys(habit.logs).forEach(date => {
+        if (before.logs[date] !== habit.logs[date]) {
+          if (logs === habit.logs) logs = { ...habit.logs };
+          logs[date] = { ...habit.logs[date], updatedAt: now };
+        }
+      });
+      Object.keys(before.logs).forEach(date => {
+        if (!(date in habit.logs)) deleted[logTombstoneKey(habit.id, date)] = now;
+      });
+      if (logs !== habit.logs) updated = { ...updated, logs };
+    }
+
+    return updated;
+  });
+
+  prev.habits.forEach(habit => {
+    if (!nextIds.has(habit.id)) deleted[habit.id] = now;
+  });
+
+  return { ...next, habits, deleted };
+};
+
+const isNewer = (a?: string, b?: string) => (a || '') > (b || '');
+
+const mergeLogs = (habitId: string, local: Record<string, DailyLog>, remote: Record<string, DailyLog>, deleted: Record<string, string>) => {
+  const logs: Record<string, DailyLog> = {};
+  const dates = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  dates.forEach(date => {
+    const a = local[date];
+    const b = remote[date];
+    const winner = a && b ? (isNewer(logStamp(b), logStamp(a)) ? b : a) : (a || b);
+    const tombstone = deleted[logTombstoneKey(habitId, date)];
+    if (tombstone && !isNewer(logStamp(winner), tombstone)) return;
+    logs[date] = winner;
+  });
+  return logs;
+};
+
+// Merge two copies of the data per habit and per log date; the newer change wins, deletions included.
+// Settings stay device-local, except on a first sync into an empty device where the remote ones are adopted.
+export const mergeAppData = (local: AppData, remote: AppData): AppData => {
+  const deleted: Record<string, string> = { ...(remote.deleted || {}) };
+  Object.entries(local.deleted || {}).forEach(([key, at]) => {
+    if (isNewer(at, deleted[key])) deleted[key] = at;
+  });
+
+  const remoteById = new Map(remote.habits.map(h => [h.id, h]));
+  const localIds = new Set(local.habits.map(h => h.id));
+  const candidates = [
+    ...local.habits.map(h => [h, remoteById.get(h.id)] as const),
+    ...remote.habits.filter(h => !localIds.has(h.id)).map(h => [undefined, h] as const),
+  ];
+
+  const habits: Habit[] = [];
+  candidates.forEach(([a, b]) => {
+    const base = a && b ? (isNewer(habitStamp(b), habitStamp(a)) ? b : a) : (a || b)!;
+    const logs = mergeLogs(base.id, a?.logs || {}, b?.logs || {}, deleted);
+
+    // A deleted habit only comes back if it was edited or checked in after the deletion
+    const tombstone = deleted[base.id];
+    if (tombstone) {
+      const lastActivity = Object.values(logs).reduce((max, log) => (isNewer(logStamp(log), max) ? logStamp(log) : max), habitStamp(base));
+      if (!isNewer(lastActivity, tombstone)) return;
+    }
+
+    habits.push({ ...base, logs });
+  });
+
+  const isFirstSync = local.habits.length === 0 && Object.keys(local.deleted || {}).length === 0;
+  const settings = isFirstSync
+    ? { ...remote.settings, webDav: local.settings.webDav }
+    : local.settings;
+
+  return { ...local, habits, deleted, settings };
+};
+
+// JSON with sorted object keys, so copies built in a different order still compare equal
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as object)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Whether two copies hold the same habits and deletions; settings are not synced
+export const hasSameContent = (a: AppData, b: AppData): boolean => {
+  return stableStringify(a.habits) === stableStringify(b.habits)
+    && stableStringify(a.deleted || {}) === stableStringify(b.deleted || {});
+};
@@ -0,0 +1,19 @@
+import { DailyLog, Habit } from '../types';
+
+// Fixtures shared by the tests
+
+// Logs checked in on each of `dates`
+export const checkIns = (dates: string[]): Record<string, DailyLog> => {
+  return Object.fromEntries(dates.map(date => [date, { date, completed: true }]));
+};
+
+// A daily check habit created on 2024-01-01, checked in on `dates`
+export const makeHabit = (dates: string[] = [], overrides: Partial<Habit> = {}): Habit => ({
+  id: 'h1',
+  title: 'Read',
+  color: '#10b981',
+  createdAt: '2024-01-01T12:00:00.000Z',
+  logs: checkIns(dates),
+  archived: false,
+  ...overrides,
+});
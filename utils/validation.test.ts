@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { AppData } from '../types';
+import { migrateAppData } from './migrations';
+import { validateAppData } from './validation';
+
+const settings: AppData['settings'] = { theme: 'system', userName: 'User', language: 'en', weekStart: 'monday', splitMonths: true };
+const habit = (logs: Record<string, unknown>) => ({ id: 'h1', title: 'Read', color: 'bg-zinc-500', createdAt: '2024-01-01T00:00:00.000Z', logs });
+
+describe('validateAppData', () => {
+  it('keeps check-ins from a schema 1 backup so the migration can repair them', () => {
+    const result = validateAppData({ schemaVersion: 1, habits: [habit({ '2024-03-10': { completed: 1, date: '2024-03-09' } })], settings: {} }, settings);
+    expect(result.issues).toEqual([]);
+    const data = migrateAppData(result.data);
+    expect(data.habits[0].logs).toEqual({ '2024-03-10': { date: '2024-03-10', completed: true } });
+  });
+
+  it('drops malformed logs from current data', () => {
+    const result = validateAppData({ schemaVersion: 2, habits: [habit({ '2024-03-10': { completed: 1 }, '2024-03-11': { completed: true, date: '2024-03-09' } })], settings: {} }, settings);
+    expect(result.data?.habits[0].logs).toEqual({});
+    expect(result.issues.map(issue => issue.path)).toEqual(['habits[0].logs["2024-03-10"].completed', 'habits[0].logs["2024-03-11"].date']);
+  });
+});
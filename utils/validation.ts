@@ -0,0 +1,272 @@
+import { AppData, DailyLog, Habit, HabitSchedule } from '../types';
+import { isValidDateKey, isValidTime } from './date';
+import { getSchemaVersion } from './migrations';
+
+export type ValidationIssueCode =
+  | 'invalidJson'
+  | 'notObject'
+  | 'missing'
+  | 'wrongType'
+  | 'badDate'
+  | 'badTimestamp'
+  | 'dateMismatch'
+  | 'duplicateId'
+  | 'duplicateRow'
+  | 'outOfRange'
+  | 'unknownValue';
+
+// What happened to the data at the issue's path when only the valid parts are kept
+export type ValidationEffect = 'file' | 'habit' | 'log' | 'field' | 'default';
+
+export interface ValidationIssue {
+  path: string; // e.g. habits[2].logs["2024-13-01"].completed
+  code: ValidationIssueCode;
+  effect: ValidationEffect;
+  expected?: string; // For wrongType / unknownValue, what would have been accepted
+}
+
+export interface ValidationResult {
+  data: AppData | null; // Only the valid parts; null when nothing at all can be imported
+  issues: ValidationIssue[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+const isTimestamp = (value: unknown): value is string => typeof value === 'string' && !isNaN(Date.parse(value));
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isOneOf = <T>(value: unknown, allowed: readonly T[]): value is T => (allowed as readonly unknown[]).includes(value);
+
+const keyPath = (base: string, key: string) => `${base}[${JSON.stringify(key)}]`;
+
+// Checks the stored shape of AppData, collecting every problem instead of stopping at the first.
+// Broken habits and logs are left out, broken optional fields are removed, broken settings fall back
+// to `fallbackSettings`. The result keeps the file's schemaVersion so it can be migrated afterwards.
+export const validateAppData = (raw: unknown, fallbackSettings: AppData['settings']): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, code: ValidationIssueCode, effect: ValidationEffect, expected?: string) => {
+    issues.push({ path, code, effect, expected });
+  };
+
+  if (!isObject(raw)) {
+    report('', 'notObject', 'file');
+    return { data: null, issues };
+  }
+  if (!Array.isArray(raw.habits)) {
+    report('habits', raw.habits === undefined ? 'missing' : 'wrongType', 'file', 'array');
+    return { data: null, issues };
+  }
+
+  // Logs saved before schema 2 may have a non-boolean `completed` and a `date` that differs from their
+  // key. Those are repaired here the way migration step 1 does, instead of dropping the check-ins.
+  const isLegacy = getSchemaVersion(raw) < 2;
+
+  const validateLog = (path: string, dateKey: string, value: unknown): DailyLog | null => {
+    if (!isValidDateKey(dateKey)) {
+      report(path, 'badDate', 'log');
+      return null;
+    }
+    if (!isObject(value)) {
+      report(path, 'notObject', 'log');
+      return null;
+    }
+    if (typeof value.completed !== 'boolean' && !isLegacy) {
+      report(`${path}.completed`, value.completed === undefined ? 'missing' : 'wrongType', 'log', 'boolean');
+      return null;
+    }
+    if (value.date !== undefined && value.date !== dateKey && !isLegacy) {
+      report(`${path}.date`, 'dateMismatch', 'log');
+      return null;
+    }
+
+    const log: DailyLog = { date: dateKey, completed: !!value.completed };
+    if (value.value !== undefined) {
+      if (typeof value.value !== 'number' || !isFinite(value.value)) report(`${path}.value`, 'wrongType', 'field', 'number');
+      else if (value.value < 0) report(`${path}.value`, 'outOfRange', 'field');
+      else log.value = value.value;
+    }
+    if (value.note !== undefined) {
+      if (typeof value.note !== 'string') report(`${path}.note`, 'wrongType', 'field', 'string');
+      else log.note = value.note;
+    }
+    if (value.rating !== undefined) {
+      if (!isOneOf(value.rating, [1, 2, 3, 4, 5] as const)) report(`${path}.rating`, 'outOfRange', 'field');
+      else log.rating = value.rating;
+    }
+    (['timestamp', 'updatedAt'] as const).forEach(field => {
+      const at = value[field];
+      if (at === undefined) return;
+      if (!isTimestamp(at)) report(`${path}.${field}`, 'badTimestamp', 'field');
+      else log[field] = at;
+    });
+    return log;
+  };
+
+  const validateSchedule = (path: string, value: unknown): HabitSchedule | undefined => {
+    if (!isObject(value)) {
+      report(path, 'notObject', 'field');
+      return undefined;
+    }
+    const isCount = (n: unknown): n is number => typeof n === 'number' && Number.isInteger(n) && n > 0;
+    switch (value.type) {
+      case 'daily':
+        return { type: 'daily' };
+      case 'weekdays':
+        if (Array.isArray(value.days) && value.days.length > 0 && value.days.every((d: unknown): d is number => typeof d === 'number' && Number.isInteger(d) && d >= 0 && d <= 6)) {
+          return { type: 'weekdays', days: value.days };
+        }
+        report(`${path}.days`, 'outOfRange', 'field');
+        return undefined;
+      case 'timesPerWeek':
+      case 'timesPerMonth':
+        if (isCount(value.times)) return { type: value.type, times: value.times };
+        report(`${path}.times`, 'outOfRange', 'field');
+        return undefined;
+      case 'interval':
+        if (isCount(value.every)) return { type: 'interval', every: value.every };
+        report(`${path}.every`, 'outOfRange', 'field');
+        return undefined;
+      default:
+        report(`${path}.type`, 'unknownValue', 'field', 'daily, weekdays, timesPerWeek, timesPerMonth, interval');
+        return undefined;
+    }
+  };
+
+  const seenIds = new Set<string>();
+  const validateHabit = (path: string, value: unknown): Habit | null => {
+    if (!isObject(value)) {
+      report(path, 'notObject', 'habit');
+      return null;
+    }
+    const { id, title, color, createdAt } = value;
+    if (!isText(id) || !isText(title) || !isText(color)) {
+      const field = !isText(id) ? 'id' : !isText(title) ? 'title' : 'color';
+      report(`${path}.${field}`, value[field] === undefined ? 'missing' : 'wrongType', 'habit', 'string');
+      return null;
+    }
+    if (seenIds.has(id)) {
+      report(`${path}.id`, 'duplicateId', 'habit');
+      return null;
+    }
+    if (!isTimestamp(createdAt)) {
+      report(`${path}.createdAt`, createdAt === undefined ? 'missing' : 'badTimestamp', 'habit');
+      return null;
+    }
+    seenIds.add(id);
+
+    const logs: Record<string, DailyLog> = {};
+    if (value.logs !== undefined && !isObject(value.logs)) {
+      report(`${path}.logs`, 'notObject', 'field');
+    } else {
+      Object.entries(value.logs || {}).forEach(([dateKey, entry]) => {
+        const log = validateLog(keyPath(`${path}.logs`, dateKey), dateKey, entry);
+        if (log) logs[dateKey] = log;
+      });
+    }
+
+    // Unknown fields of older versions (like a log's color) are left for the migrations to handle
+    const habit: Habit = { ...value, id, title, color, createdAt, logs, archived: false };
+    if (value.archived !== undefined && typeof value.archived !== 'boolean') {
+      report(`${path}.archived`, 'wrongType', 'default', 'boolean');
+    } else {
+      habit.archived = !!value.archived;
+    }
+    if (value.description !== undefined && typeof value.description !== 'string') {
+      report(`${path}.description`, 'wrongType', 'field', 'string');
+      delete habit.description;
+    }
+    if (value.kind !== undefined && value.kind !== 'check' && value.kind !== 'measurable') {
+      report(`${path}.kind`, 'unknownValue', 'default', 'check, measurable');
+      delete habit.kind;
+    }
+    if (value.unit !== undefined && typeof value.unit !== 'string') {
+      report(`${path}.unit`, 'wrongType', 'field', 'string');
+      delete habit.unit;
+    }
+    if (value.target !== undefined && !(typeof value.target === 'number' && value.target > 0)) {
+      report(`${path}.target`, 'outOfRange', 'field');
+      delete habit.target;
+    }
+    if (value.schedule !== undefined) {
+      const schedule = validateSchedule(`${path}.schedule`, value.schedule);
+      if (schedule) habit.schedule = schedule;
+      else delete habit.schedule;
+    }
+    if (value.reminders !== undefined) {
+      if (Array.isArray(value.reminders) && value.reminders.every((r: unknown): r is string => typeof r === 'string' && isValidTime(r))) {
+        habit.reminders = value.reminders;
+      } else {
+        report(`${path}.reminders`, 'wrongType', 'field', 'HH:mm[]');
+        delete habit.reminders;
+      }
+    }
+    if (value.updatedAt !== undefined && !isTimestamp(value.updatedAt)) {
+      report(`${path}.updatedAt`, 'badTimestamp', 'field');
+      delete habit.updatedAt;
+    }
+    return habit;
+  };
+
+  const habits: Habit[] = [];
+  raw.habits.forEach((entry: unknown, i: number) => {
+    const habit = validateHabit(`habits[${i}]`, entry);
+    if (habit) habits.push(habit);
+  });
+
+  const deleted: Record<string, string> = {};
+  if (raw.deleted !== undefined) {
+    if (!isObject(raw.deleted)) {
+      report('deleted', 'notObject', 'field');
+    } else {
+      Object.entries(raw.deleted).forEach(([key, at]) => {
+        if (isTimestamp(at)) deleted[key] = at;
+        else report(keyPath('deleted', key), 'badTimestamp', 'field');
+      });
+    }
+  }
+
+  // Settings: anything invalid falls back to the current device's value
+  const settings: AppData['settings'] = { ...fallbackSettings };
+  if (raw.settings === undefined) {
+    report('settings', 'missing', 'default');
+  } else if (!isObject(raw.settings)) {
+    report('settings', 'notObject', 'default');
+  } else {
+    const s = raw.settings;
+    const choice = <K extends keyof AppData['settings']>(field: K, allowed: readonly AppData['settings'][K][]) => {
+      const value = s[field];
+      if (value === undefined) return;
+      if (isOneOf(value, allowed)) settings[field] = value;
+      else report(`settings.${field}`, 'unknownValue', 'default', allowed.join(', '));
+    };
+    choice('theme', ['light', 'dark', 'system']);
+    choice('language', ['en', 'zh']);
+    choice('weekStart', ['sunday', 'monday']);
+    choice('splitMonths', [true, false]);
+    choice('streakFreezesPerMonth', [0, 1, 2, 3]);
+    if (s.userName !== undefined) {
+      if (typeof s.userName === 'string') settings.userName = s.userName;
+      else report('settings.userName', 'wrongType', 'default', 'string');
+    }
+    if (s.webDav !== undefined) {
+      const w = s.webDav;
+      const valid = isObject(w)
+        && typeof w.enabled === 'boolean' && typeof w.url === 'string' && typeof w.username === 'string'
+        && typeof w.password === 'string' && typeof w.autoSync === 'boolean'
+        && typeof w.backupCount === 'number' && Number.isInteger(w.backupCount) && w.backupCount > 0;
+      if (valid) settings.webDav = w as AppData['settings']['webDav'];
+      else report('settings.webDav', 'wrongType', 'default');
+    }
+  }
+
+  if (raw.schemaVersion !== undefined && typeof raw.schemaVersion !== 'number') {
+    report('schemaVersion', 'wrongType', 'default', 'number');
+  }
+
+  const data: AppData = { schemaVersion: getSchemaVersion(raw), habits, settings };
+  if (raw.deleted !== undefined) data.deleted = deleted;
+  return { data, issues };
+};
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileStat, WebDAVClient } from 'webdav';
+import { AppData } from '../types';
+import { fetchLatestBackup, listBackupFiles, performBackup } from './webdav';
+
+// Just the part of a WebDAV server the backup code uses: a flat directory of files
+const createMockClient = (initialFiles: string[] = []) => {
+  const files = new Map<string, string>(initialFiles.map(name => [`/${name}`, '{}']));
+  const failDeletes = new Set<string>();
+
+  const client = {
+    getDirectoryContents: async (): Promise<FileStat[]> => Array.from(files.keys()).map(filename => ({
+      filename,
+      basename: filename.slice(1),
+      lastmod: '',
+      size: files.get(filename)!.length,
+      type: 'file',
+      etag: null,
+    })),
+    getFileContents: async (filename: string) => {
+      if (!files.has(filename)) throw new Error(`404 ${filename}`);
+      return files.get(filename);
+    },
+    putFileContents: async (filename: string, content: string) => {
+      files.set(filename, content);
+      return true;
+    },
+    deleteFile: async (filename: string) => {
+      if (failDeletes.has(filename)) throw new Error(`423 ${filename}`);
+      files.delete(filename);
+    },
+  };
+
+  return { client: client as unknown as WebDAVClient, files, failDeletes };
+};
+
+const data = (title: string): AppData => ({
+  schemaVersion: 2,
+  habits: [{ id: 'h1', title, color: '#10b981', createdAt: '2024-01-01T00:00:00.000Z', logs: {}, archived: false }],
+  settings: { theme: 'system', userName: 'User', language: 'en', weekStart: 'monday' },
+});
+
+const names = (files: Map<string, string>) => Array.from(files.keys()).sort();
+
+describe('WebDAV backups', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-05-15T08:00:00.000Z'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // One backup per minute
+  const backupTimes = async (client: WebDAVClient, count: number, retention: number) => {
+    for (let i = 0; i < count; i++) {
+      await performBackup(client, data(`v${i}`), retention);
+      vi.advanceTimersByTime(60_000);
+    }
+  };
+
+  it('names backups by time so the newest sorts first', async () => {
+    const { client, files } = createMockClient();
+    await backupTimes(client, 2, 0);
+    expect(names(files)).toEqual([
+      '/habitpulse_backup_2024-05-15T08-00-00-000Z.json',
+      '/habitpulse_backup_2024-05-15T08-01-00-000Z.json',
+    ]);
+    expect((await listBackupFiles(client)).map(f => f.basename)[0]).toBe('habitpulse_backup_2024-05-15T08-01-00-000Z.json');
+  });
+
+  it('keeps only the newest backups', async () => {
+    const { client, files } = createMockClient();
+    await backupTimes(client, 5, 3);
+    expect(names(files)).toEqual([
+      '/habitpulse_backup_2024-05-15T08-02-00-000Z.json',
+      '/habitpulse_backup_2024-05-15T08-03-00-000Z.json',
+      '/habitpulse_backup_2024-05-15T08-04-00-000Z.json',
+    ]);
+    expect((await fetchLatestBackup(client))?.habits[0].title).toBe('v4');
+  });
+
+  it('keeps every backup when retention is off', async () => {
+    const { client, files } = createMockClient();
+    await backupTimes(client, 4, 0);
+    expect(files.size).toBe(4);
+  });
+
+  it('leaves other files on the server alone', async () => {
+    const { client, files } = createMockClient([
+      'notes.txt',
+      'habitpulse_backup_notes.txt',
+      'habitpulse_backup_2020-01-01T00-00-00-000Z.json',
+    ]);
+    await backupTimes(client, 2, 1);
+    expect(names(files)).toEqual([
+      '/habitpulse_backup_2024-05-15T08-01-00-000Z.json',
+      '/habitpulse_backup_notes.txt',
+      '/notes.txt',
+    ]);
+  });
+
+  it('still uploads when an old backup cannot be deleted', async () => {
+    const { client, files, failDeletes } = createMockClient(['habitpulse_backup_2020-01-01T00-00-00-000Z.json']);
+    failDeletes.add('/habitpulse_backup_2020-01-01T00-00-00-000Z.json');
+    await backupTimes(client, 2, 1);
+    expect(names(files)).toEqual([
+      '/habitpulse_backup_2020-01-01T00-00-00-000Z.json',
+      '/habitpulse_backup_2024-05-15T08-01-00-000Z.json',
+    ]);
+  });
+
+  it('uploads without the WebDAV password', async () => {
+    const { client, files } = createMockClient();
+    const withCredentials = data('v0');
+    withCredentials.settings.webDav = { enabled: true, url: 'https://dav.example.com', username: 'ada', password: 'secret', backupCount: 0, autoSync: false };
+    await performBackup(client, withCredentials, 0);
+    expect(Array.from(files.values())[0]).not.toContain('secret');
+  });
+});
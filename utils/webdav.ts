@@ -1,5 +1,10 @@
-import { createClient, WebDAVClient, AuthType } from 'webdav';
+import { createClient, WebDAVClient, AuthType, FileStat } from 'webdav';
 import { AppData } from '../types';
+import { mergeAppData, hasSameContent } from './sync';
+import { migrateAppData } from './migrations';
+import { ENCRYPTED_EXTENSION, encryptText, decryptText, isEncryptedPayload, PassphraseError } from './crypto';
+
+const BACKUP_PREFIX = 'habitpulse_backup_';
 
 export const createWebDavClient = (url: string, user: string, pass: string, proxyUrl?: string): WebDAVClient => {
   // If we're using a worker proxy, we might need to ensure paths are handled correctly,
@@ -37,10 +42,71 @@ export const testWebDavConnection = async (client: WebDAVClient): Promise<boolea
   }
 };
 
-export const performBackup = async (client: WebDAVClient, data: AppData, retentionCount: number): Promise<void> => {
+// Backup files in the root directory, newest first
+export const listBackupFiles = async (client: WebDAVClient): Promise<FileStat[]> => {
+  const contents = await client.getDirectoryContents("/");
+  const items = Array.isArray(contents) ? contents : contents.data;
+  return items
+    .filter((item: FileStat) =>
+      item.type === "file" &&
+      item.basename.startsWith(BACKUP_PREFIX) &&
+      (item.basename.endsWith(".json") || item.basename.endsWith(ENCRYPTED_EXTENSION))
+    )
+    // Sort by filename descending (newest first) since it contains ISO timestamp
+    .sort((a: FileStat, b: FileStat) => b.basename.localeCompare(a.basename));
+};
+
+export const isEncryptedBackup = (filename: string) => filename.endsWith(ENCRYPTED_EXTENSION);
+
+// Encrypted backups need the passphrase; a PassphraseError tells the caller to ask for it
+export const downloadBackup = async (client: WebDAVClient, filename: string, passphrase?: string): Promise<AppData> => {
+  const content = await client.getFileContents(filename, { format: "text" }) as string;
+  const json = isEncryptedPayload(content) ? await decryptText(content, passphrase) : content;
+  const parsed = JSON.parse(json);
+  if (!parsed || !Array.isArray(parsed.habits)) {
+    throw new Error(`Invalid backup file: ${filename}`);
+  }
+  return migrateAppData(parsed);
+};
+
+export const fetchLatestBackup = async (client: WebDAVClient, passphrase?: string): Promise<AppData | null> => {
+  const backups = await listBackupFiles(client);
+  if (backups.length === 0) return null;
+  return downloadBackup(client, backups[0].filename, passphrase);
+};
+
+// Two-way sync: pull the newest remote copy, merge it with the local data and push the result
+// back when it differs from what the server already has. Returns the merged data.
+export const performSync = async (client: WebDAVClient, local: AppData, retentionCount: number, passphrase?: string): Promise<AppData> => {
+  const remote = await fetchLatestBackup(client, passphrase);
+  if (!remote) {
+    await performBackup(client, local, retentionCount, passphrase);
+    return local;
+  }
+
+  const merged = mergeAppData(local, remote);
+  if (!hasSameContent(merged, remote)) {
+    await performBackup(client, merged, retentionCount, passphrase);
+  }
+  return merged;
+};
+
+// The server never needs its own credentials, so they are left out of what gets uploaded
+const withoutCredentials = (data: AppData): AppData => {
+  const webDav = data.settings.webDav;
+  if (!webDav) return data;
+  return { ...data, settings: { ...data.settings, webDav: { ...webDav, password: '' } } };
+};
+
+// Uploads are encrypted when the settings ask for it; that needs the passphrase
+export const performBackup = async (client: WebDAVClient, data: AppData, retentionCount: number, passphrase?: string): Promise<void> => {
+  const encrypt = !!data.settings.webDav?.encrypt;
+  if (encrypt && !passphrase) throw new PassphraseError('missing');
+
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-  const filename = `habitpulse_backup_${timestamp}.json`;
-  const content = JSON.stringify(data);
+  const filename = `${BACKUP_PREFIX}${timestamp}${encrypt ? ENCRYPTED_EXTENSION : '.json'}`;
+  const json = JSON.stringify(withoutCredentials(data));
+  const content = encrypt ? await encryptText(json, passphrase!) : json;
 
   // Upload current backup
   // Jianguoyun and some other WebDAV servers require PUT to the full path,
@@ -51,28 +117,15 @@ export const performBackup = async (client: WebDAVClient, data: AppData, retenti
   // Cleanup old backups
   if (retentionCount > 0) {
     try {
-      const contents = await client.getDirectoryContents("/");
-      
-      if (Array.isArray(contents)) {
-        const backups = contents
-          .filter((item: any) => 
-            item.type === "file" && 
-            item.basename.startsWith("habitpulse_backup_") && 
-            item.basename.endsWith(".json")
-          )
-          .sort((a: any, b: any) => {
-            // Sort by filename descending (newest first) since it contains ISO timestamp
-            return b.basename.localeCompare(a.basename);
-          });
-
-        if (backups.length > retentionCount) {
-          const toDelete = backups.slice(retentionCount);
-          for (const item of toDelete) {
-            try {
-              await client.deleteFile(item.filename);
-            } catch (e) {
-              console.error("Failed to delete old backup:", item.filename, e);
-            }
+      const backups = await listBackupFiles(client);
+
+      if (backups.length > retentionCount) {
+        const toDelete = backups.slice(retentionCount);
+        for (const item of toDelete) {
+          try {
+            await client.deleteFile(item.filename);
+          } catch (e) {
+            console.error("Failed to delete old backup:", item.filename, e);
           }
         }
       }
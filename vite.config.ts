@@ -1,9 +1,45 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
+import { readdirSync, readFileSync, statSync } from 'node:fs'
+import { join, relative, sep } from 'node:path'
+
+// Files in public/ that are served but not needed offline
+const PRECACHE_EXCLUDE = ['CNAME', '.nojekyll']
+
+const listFiles = (dir: string): string[] => readdirSync(dir).flatMap((name) => {
+  const path = join(dir, name)
+  return statSync(path).isDirectory() ? listFiles(path) : [path]
+})
+
+// Emits sw.js with the list of every build and public file to precache. The cache version is a hash
+// of that list (asset names carry content hashes) plus index.html, so each deploy gets a new worker.
+const precacheServiceWorker = (): Plugin => ({
+  name: 'habitpulse-precache-sw',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const publicDir = join(__dirname, 'public')
+    const publicFiles = listFiles(publicDir)
+      .map((path) => relative(publicDir, path).split(sep).join('/'))
+      .filter((name) => !PRECACHE_EXCLUDE.includes(name))
+    const urls = Array.from(new Set(['index.html', ...Object.keys(bundle), ...publicFiles])).sort().map((name) => `/${name}`)
+
+    const hash = createHash('sha256').update(urls.join('\n'))
+    const html = bundle['index.html']
+    if (html && html.type === 'asset') hash.update(html.source)
+
+    const source = readFileSync(join(__dirname, 'sw.js'), 'utf-8')
+      .replace('self.__PRECACHE_MANIFEST__', JSON.stringify(urls))
+      .replace('__CACHE_VERSION__', hash.digest('hex').slice(0, 12))
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+  },
+})
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheServiceWorker()],
   // With a custom domain, the app is served from the root, not a subdirectory.
   base: '/',
   server: {
@@ -25,5 +61,10 @@ export default defineConfig({
   build: {
     outDir: 'dist',
     assetsDir: 'assets',
+  },
+  test: {
+    // A zone with daylight saving time, so date math is tested across the clock changes
+    // (2024-03-10 and 2024-11-03 in New York). Component tests opt into jsdom per file.
+    env: { TZ: 'America/New_York' },
   }
 })
\ No newline at end of file